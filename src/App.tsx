@@ -1,64 +1,374 @@
-import { useRef, useCallback, useState, useEffect } from 'react'
-import type { Card } from './types'
-import { splitToCards, recalculatePageBreaks, type Typography } from './utils/splitToCards'
-import { exportCards } from './utils/exportCards'
+import { useRef, useCallback, useState, useEffect, useMemo } from 'react'
+import type { Card, Project } from './types'
+import {
+  splitToCards,
+  recalculatePageBreaks,
+  splitCardParts,
+  joinCardParts,
+  moveCardPart,
+  mergeCardParts,
+  splitCardPart,
+  splitTextAt,
+  findOverflowCut,
+  fitTypographyToCardCount,
+  createEstimateMeasurer,
+  type Typography,
+  type PaginationEngine,
+  type PaginationOptions,
+  type PaginationStrategy,
+} from './utils/splitToCards'
+import { createDomMeasurer, type DomMeasurer } from './utils/measureCardHeight'
+import type { CanvasFormat } from './utils/canvasFormat'
+import { exportCards, type ExportItem, type ExportProgress, type ExportResult } from './utils/exportCards'
+import { loadExportSettings, saveExportSettings, type ExportSettings } from './utils/exportSettings'
+import { COVER_CARD_ID, type CoverSettings } from './utils/coverCard'
+import { applyDecorations, hasDecorations, type CardDecorations } from './utils/cardDecorations'
+import { SERIF_FONT_STACK, type Theme } from './utils/theme'
+import { loadCustomThemes, saveCustomThemes, createCustomTheme } from './utils/themeStore'
+import {
+  restoreImages,
+  loadImages,
+  saveImages,
+  deleteImages,
+  deleteProjectImages,
+  copyProjectImages,
+  adoptLegacyImages,
+  loadFonts,
+  saveFonts,
+  deleteFonts,
+  deleteProjectFonts,
+  copyProjectFonts,
+  type StoredImage,
+  type StoredFont,
+} from './utils/assetStore'
+import { readFontFile, registerFonts, unregisterFont, fontStack, primaryFontFamily, workerFontSources } from './utils/fonts'
+import { createCardScene } from './utils/canvasRenderer'
+import { parseCardText, setCardOverrides, effectiveTypography, type CardOverrides } from './utils/cardOverrides'
+import { parseCardDocument, blockText } from './utils/cardDocument'
+import { detectCardLayout } from './utils/cardLayouts'
+import type { CanvasRenderInput } from './utils/workerRenderer'
+import { runRenderDiff } from './utils/renderDiff'
+import { downloadBlob } from './utils/download'
+import { createHistory, pushHistory, moveHistory, snapshotsEqual, type History, type HistoryAction } from './utils/history'
+import { exportProjectBundle, importProjectBundle } from './utils/projectBundle'
+import { loadWorkspace, saveProjects, saveActiveProjectId, createProject, duplicateProject, deriveProjectTitle, UNTITLED_PROJECT } from './utils/projectStore'
 import { CardThumbnail } from './components/CardThumbnail'
-import { CardPreview, type BackgroundStyle } from './components/CardPreview'
+import { CardPreview } from './components/CardPreview'
+import { CardStylePanel } from './components/CardStylePanel'
 import { RichTextInput, type RichTextInputHandle } from './components/RichTextInput'
 import { ResizablePanels } from './components/ResizablePanels'
+import { ProjectSwitcher } from './components/ProjectSwitcher'
+import { CanvasFormatSelector } from './components/CanvasFormatSelector'
+import { CoverPreview } from './components/CoverPreview'
+import { CoverEditor } from './components/CoverEditor'
+import { DecorationSettings } from './components/DecorationSettings'
+import { ThemePicker } from './components/ThemePicker'
+import { ExportDialog } from './components/ExportDialog'
+import { ExportProgressDialog } from './components/ExportProgressDialog'
+import { HistoryPanel } from './components/HistoryPanel'
 
-const STORAGE_KEY = 'wx2xhs-draft'
-
-// Load saved state from localStorage
-function loadSavedState() {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY)
-    if (saved) {
-      return JSON.parse(saved)
-    }
-  } catch (e) {
-    console.warn('Failed to load saved state:', e)
-  }
-  return null
+function toStoredImages(
+  images: Map<string, string>,
+  imageMeta: Map<string, { width: number; height: number }>,
+  imageSizes: Map<string, number>
+): StoredImage[] {
+  return Array.from(images.entries()).map(([id, dataUrl]) => {
+    const meta = imageMeta.get(id)
+    return { id, dataUrl, width: meta?.width, height: meta?.height, widthPercent: imageSizes.get(id) }
+  })
 }
 
 function App() {
-  const savedState = loadSavedState()
+  const [workspace] = useState(loadWorkspace)
+  const initialProject = workspace.projects.find(p => p.id === workspace.activeProjectId) ?? workspace.projects[0]
 
-  const [originalText, setOriginalText] = useState(savedState?.originalText ?? '')
+  const [projects, setProjects] = useState<Project[]>(workspace.projects)
+  const [activeProjectId, setActiveProjectId] = useState(initialProject.id)
+  const [originalText, setOriginalText] = useState(initialProject.originalText)
   const [cards, setCards] = useState<Card[]>([])
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null)
   const [isExporting, setIsExporting] = useState(false)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [exportScope, setExportScope] = useState<'all' | 'selection'>('all')
+  const [checkedCardIds, setCheckedCardIds] = useState<Set<string>>(new Set()) // multi-select for partial export
+  const checkAnchorRef = useRef<string | null>(null) // last toggled card, start of shift-click ranges
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings)
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null)
+  // Last export with failures, kept for the summary and its retry
+  const [exportReport, setExportReport] = useState<{ items: ExportItem[]; settings: ExportSettings; result: ExportResult } | null>(null)
+  const exportAbortRef = useRef<AbortController | null>(null)
   const [images, setImages] = useState<Map<string, string>>(new Map())
   const [imageMeta, setImageMeta] = useState<Map<string, { width: number; height: number }>>(new Map())
   const [imageSizes, setImageSizes] = useState<Map<string, number>>(new Map()) // image ID -> width percentage (20-100)
-  const [typography, setTypography] = useState<Typography>(savedState?.typography ?? { fontSize: 32, lineHeight: 1.6, paragraphSpacing: 1.2, letterSpacing: 0.05 })
+  const [typography, setTypography] = useState<Typography>(initialProject.typography)
   const [isAutoMode, setIsAutoMode] = useState(false) // Auto mode: typography changes update --- positions
+  const [paginationEngine, setPaginationEngine] = useState<PaginationEngine>('estimate')
+  const [paginationStrategy, setPaginationStrategy] = useState<PaginationStrategy>('greedy')
+  const [targetCardCount, setTargetCardCount] = useState(9)
+  const [cardOverflow, setCardOverflow] = useState<Map<string, number>>(new Map()) // card ID -> hidden content height (px)
   const [previewScale, setPreviewScale] = useState(1.1) // zoom multiplier on top of "fit to viewport"
-  const [backgroundStyle, setBackgroundStyle] = useState<BackgroundStyle>(savedState?.backgroundStyle ?? 'classic')
+  const [theme, setTheme] = useState<Theme>(initialProject.theme)
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes)
+  const [fonts, setFonts] = useState<StoredFont[]>([])
+  const [canvasFormat, setCanvasFormat] = useState<CanvasFormat>(initialProject.canvasFormat)
+  const [cover, setCover] = useState<CoverSettings>(initialProject.cover)
+  const [decorations, setDecorations] = useState<CardDecorations>(initialProject.decorations)
+  const [isAssetsRestored, setIsAssetsRestored] = useState(false)
+  const [history, setHistory] = useState<History>(() => createHistory({
+    originalText: initialProject.originalText,
+    typography: initialProject.typography,
+    images: new Map(),
+    imageSizes: new Map(),
+  }))
+  // Images of the pre-project single draft are moved into the migrated project once
+  const [legacyImagesAdopted] = useState(() => workspace.migratedFromDraft
+    ? adoptLegacyImages(initialProject.id).catch(e => console.warn('Failed to migrate images:', e))
+    : Promise.resolve())
   const textInputRef = useRef<RichTextInputHandle>(null)
+  const originalTextRef = useRef(originalText)
+  const coverRef = useRef(cover)
+  const persistedImagesRef = useRef<Map<string, StoredImage>>(new Map())
   const cardsRef = useRef<Card[]>([])
   const selectedCardIdRef = useRef<string | null>(null)
   const isEditingCardRef = useRef(false) // Prevent regeneration during card editing
   const previewViewportRef = useRef<HTMLDivElement>(null)
+  const domMeasurerRef = useRef<{ deps: unknown[]; measurer: DomMeasurer } | null>(null)
+  const exportContainerRef = useRef<HTMLDivElement>(null)
+  const historyRef = useRef(history)
+  const pendingHistoryActionRef = useRef<HistoryAction | null>(null) // label for the next recorded change
+  const isHistoryReadyRef = useRef(false)
+  const skipAutoPaginationRef = useRef(false) // an undo restored text that auto mode must not rewrite
   const [previewViewportSize, setPreviewViewportSize] = useState<{ width: number; height: number } | null>(null)
 
+  originalTextRef.current = originalText
+  coverRef.current = cover
   cardsRef.current = cards
   selectedCardIdRef.current = selectedCardId
+  historyRef.current = history
+
+  const loadImageMeta = useCallback((id: string, src: string) => {
+    const img = new Image()
+    img.onload = () => {
+      setImageMeta(prev => new Map(prev).set(id, { width: img.naturalWidth, height: img.naturalHeight }))
+    }
+    img.src = src
+  }, [])
+
+  // Restore images referenced by the active project (its text or cover) from IndexedDB (orphans are dropped)
+  useEffect(() => {
+    let cancelled = false
+    const heroImageId = coverRef.current.heroImageId
+    legacyImagesAdopted
+      .then(() => restoreImages(activeProjectId, originalTextRef.current, heroImageId ? [heroImageId] : []))
+      .then(stored => {
+        if (cancelled) return
+        persistedImagesRef.current = new Map(stored.map(image => [image.id, image]))
+        setImages(prev => new Map([...stored.map(image => [image.id, image.dataUrl] as const), ...prev]))
+        setImageMeta(prev => {
+          const next = new Map(prev)
+          for (const image of stored) {
+            if (image.width && image.height) next.set(image.id, { width: image.width, height: image.height })
+          }
+          return next
+        })
+        setImageSizes(prev => {
+          const next = new Map(prev)
+          for (const image of stored) {
+            if (image.widthPercent !== undefined) next.set(image.id, image.widthPercent)
+          }
+          return next
+        })
+        for (const image of stored) {
+          if (!image.width || !image.height) loadImageMeta(image.id, image.dataUrl)
+        }
+      })
+      .catch(e => console.warn('Failed to restore images:', e))
+      .finally(() => {
+        if (!cancelled) setIsAssetsRestored(true)
+      })
+    return () => { cancelled = true }
+  }, [activeProjectId, legacyImagesAdopted, loadImageMeta])
 
-  // Save state to localStorage when it changes
+  // Load and register the fonts uploaded to the active project
   useEffect(() => {
-    const stateToSave = {
-      originalText,
-      typography,
-      backgroundStyle,
+    let cancelled = false
+    loadFonts(activeProjectId)
+      .then(async stored => {
+        await registerFonts(stored)
+        if (!cancelled) setFonts(stored)
+      })
+      .catch(e => console.warn('Failed to restore fonts:', e))
+    return () => { cancelled = true }
+  }, [activeProjectId])
+
+  // Persist image changes to IndexedDB (only after the restore finished, so nothing is wiped)
+  useEffect(() => {
+    if (!isAssetsRestored) return
+
+    const timeout = setTimeout(() => {
+      const persisted = persistedImagesRef.current
+      const records = toStoredImages(images, imageMeta, imageSizes)
+      const changed = records.filter(record => {
+        const prev = persisted.get(record.id)
+        return !prev || prev.dataUrl !== record.dataUrl || prev.width !== record.width || prev.height !== record.height || prev.widthPercent !== record.widthPercent
+      })
+      const removed = Array.from(persisted.keys()).filter(id => !images.has(id))
+
+      persistedImagesRef.current = new Map(records.map(record => [record.id, record]))
+      Promise.all([saveImages(activeProjectId, changed), deleteImages(activeProjectId, removed)])
+        .catch(e => console.warn('Failed to save images:', e))
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [activeProjectId, images, imageMeta, imageSizes, isAssetsRestored])
+
+  // Record changes of the document state; restoring a project resets the history instead
+  useEffect(() => {
+    const snapshot = { originalText, typography, images, imageSizes }
+    const wasReady = isHistoryReadyRef.current
+    isHistoryReadyRef.current = isAssetsRestored
+    const action = pendingHistoryActionRef.current ?? 'text'
+    pendingHistoryActionRef.current = null
+
+    if (!isAssetsRestored || !wasReady) {
+      setHistory(createHistory(snapshot))
+      return
     }
+    setHistory(prev => snapshotsEqual(prev.entries[prev.index].snapshot, snapshot) ? prev : pushHistory(prev, action, snapshot))
+  }, [originalText, typography, images, imageSizes, isAssetsRestored])
+
+  // Sync the working state back into the active project
+  useEffect(() => {
+    setProjects(prev => {
+      const current = prev.find(p => p.id === activeProjectId)
+      if (!current) return prev
+      if (
+        current.originalText === originalText &&
+        current.typography === typography &&
+        current.theme === theme &&
+        current.canvasFormat === canvasFormat &&
+        current.cover === cover &&
+        current.decorations === decorations
+      ) return prev
+      // Untitled projects take their title from the text until renamed
+      const title = current.title === UNTITLED_PROJECT ? deriveProjectTitle(originalText) : current.title
+      return prev.map(p => p.id === activeProjectId
+        ? { ...p, title, originalText, typography, theme, canvasFormat, cover, decorations, updatedAt: Date.now() }
+        : p)
+    })
+  }, [activeProjectId, originalText, typography, theme, canvasFormat, cover, decorations])
+
+  // Save the project library to localStorage when it changes
+  useEffect(() => {
+    saveProjects(projects)
+  }, [projects])
+
+  useEffect(() => {
+    saveActiveProjectId(activeProjectId)
+  }, [activeProjectId])
+
+  useEffect(() => {
+    saveCustomThemes(customThemes)
+  }, [customThemes])
+
+  const openProject = useCallback((project: Project) => {
+    setActiveProjectId(project.id)
+    setOriginalText(project.originalText)
+    setTypography(project.typography)
+    setTheme(project.theme)
+    setCanvasFormat(project.canvasFormat)
+    setCover(project.cover)
+    setDecorations(project.decorations)
+    setImages(new Map())
+    setImageMeta(new Map())
+    setImageSizes(new Map())
+    setFonts([])
+    persistedImagesRef.current = new Map()
+    setIsAssetsRestored(false)
+    setIsAutoMode(false)
+    setCards([])
+    setSelectedCardId(null)
+    setCheckedCardIds(new Set())
+    checkAnchorRef.current = null
+  }, [])
+
+  const handleProjectOpen = useCallback((projectId: string) => {
+    if (projectId === activeProjectId) return
+    const project = projects.find(p => p.id === projectId)
+    if (project) openProject(project)
+  }, [projects, activeProjectId, openProject])
+
+  const handleProjectCreate = useCallback(() => {
+    // Branding carries over to new projects along with the look
+    const project = createProject({ typography, theme, canvasFormat, decorations })
+    setProjects(prev => [project, ...prev])
+    openProject(project)
+  }, [typography, theme, canvasFormat, decorations, openProject])
+
+  const handleProjectRename = useCallback((projectId: string, title: string) => {
+    setProjects(prev => prev.map(p => (p.id === projectId ? { ...p, title, updatedAt: Date.now() } : p)))
+  }, [])
+
+  const handleProjectDuplicate = useCallback((projectId: string) => {
+    const source = projects.find(p => p.id === projectId)
+    if (!source) return
+    const copy = duplicateProject(source)
+    setProjects(prev => [copy, ...prev])
+
+    // The active project's latest images may not be persisted yet, so copy them from memory
+    const copyImages = projectId === activeProjectId
+      ? saveImages(copy.id, toStoredImages(images, imageMeta, imageSizes))
+      : copyProjectImages(projectId, copy.id)
+    copyImages.catch(e => console.warn('Failed to copy images:', e))
+    copyProjectFonts(projectId, copy.id).catch(e => console.warn('Failed to copy fonts:', e))
+  }, [projects, activeProjectId, images, imageMeta, imageSizes])
+
+  const handleProjectExport = useCallback(async (projectId: string) => {
+    const project = projects.find(p => p.id === projectId)
+    if (!project) return
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave))
-    } catch (e) {
-      console.warn('Failed to save state:', e)
+      const projectImages = projectId === activeProjectId
+        ? toStoredImages(images, imageMeta, imageSizes)
+        : await loadImages(projectId)
+      const projectFonts = projectId === activeProjectId ? fonts : await loadFonts(projectId)
+      await exportProjectBundle(project, projectImages, projectFonts)
+    } catch (error) {
+      console.error('Project export failed:', error)
+      alert('项目导出失败，请重试')
     }
-  }, [originalText, typography, backgroundStyle])
+  }, [projects, activeProjectId, images, imageMeta, imageSizes, fonts])
+
+  const handleProjectImport = useCallback(async (file: File) => {
+    try {
+      const { project, images: bundleImages, fonts: bundleFonts, cardsMatch } = await importProjectBundle(file)
+      await saveImages(project.id, bundleImages)
+      await saveFonts(project.id, bundleFonts)
+      setProjects(prev => [project, ...prev])
+      openProject(project)
+      if (!cardsMatch) alert('项目已导入，但分页与导出时不同，请检查卡片')
+    } catch (error) {
+      console.error('Project import failed:', error)
+      alert(error instanceof Error ? `导入失败：${error.message}` : '导入失败，请重试')
+    }
+  }, [openProject])
+
+  const handleProjectDelete = useCallback((projectId: string) => {
+    const project = projects.find(p => p.id === projectId)
+    if (!project || !confirm(`确定删除项目「${project.title}」吗？此操作无法撤销。`)) return
+
+    const remaining = projects.filter(p => p.id !== projectId)
+    deleteProjectImages(projectId).catch(e => console.warn('Failed to delete images:', e))
+    deleteProjectFonts(projectId).catch(e => console.warn('Failed to delete fonts:', e))
+
+    if (projectId !== activeProjectId) {
+      setProjects(remaining)
+      return
+    }
+    const next = remaining.length > 0
+      ? [...remaining].sort((a, b) => b.updatedAt - a.updatedAt)[0]
+      : createProject({ typography, theme, canvasFormat, decorations })
+    setProjects(remaining.length > 0 ? remaining : [next])
+    openProject(next)
+  }, [projects, activeProjectId, typography, theme, canvasFormat, decorations, openProject])
 
   // Regenerate cards when originalText changes (simple split by ---)
   useEffect(() => {
@@ -70,14 +380,24 @@ function App() {
 
     if (!originalText.trim()) {
       setCards([])
-      setSelectedCardId(null)
+      if (selectedCardIdRef.current !== COVER_CARD_ID) setSelectedCardId(null)
       return
     }
     const timeout = setTimeout(() => {
       const currentIndex = cardsRef.current.findIndex(c => c.id === selectedCardIdRef.current)
-      const newCards = splitToCards(originalText)
+      // Edited cards keep their ids, so selection and checkboxes follow the content
+      const newCards = splitToCards(originalText, cardsRef.current)
+      const newIds = new Set(newCards.map(c => c.id))
       setCards(newCards)
+      setCheckedCardIds(prev => {
+        const next = new Set(Array.from(prev).filter(id => id === COVER_CARD_ID || newIds.has(id)))
+        return next.size === prev.size ? prev : next
+      })
+      // The cover stays selected while the content cards are re-split
+      if (selectedCardIdRef.current === COVER_CARD_ID) return
+      if (selectedCardIdRef.current && newIds.has(selectedCardIdRef.current)) return
       if (newCards.length > 0) {
+        // The selected card is gone (deleted or merged away): stay near its position
         const newIndex = currentIndex >= 0 ? Math.min(currentIndex, newCards.length - 1) : 0
         setSelectedCardId(newCards[newIndex].id)
       } else {
@@ -87,21 +407,97 @@ function App() {
     return () => clearTimeout(timeout)
   }, [originalText])
 
-  // Auto-mode: When typography changes, recalculate --- positions in text
+  // Canvas format with the header/footer bands taken out of the content box
+  const layoutFormat = useMemo(() => applyDecorations(canvasFormat, decorations), [canvasFormat, decorations])
+
+  // DOM measurer for the current look; reused while its inputs are unchanged
+  const getDomMeasurer = useCallback((): DomMeasurer | null => {
+    const deps = [typography, theme, canvasFormat, decorations, fonts, images, imageSizes, imageMeta]
+    const cached = domMeasurerRef.current
+    if (cached && cached.deps.every((dep, i) => dep === deps[i])) return cached.measurer
+
+    cached?.measurer.dispose()
+    domMeasurerRef.current = null
+    try {
+      const measurer = createDomMeasurer({ typography, theme, canvasFormat, decorations, images, imageSizes, imageMeta })
+      domMeasurerRef.current = { deps, measurer }
+      return measurer
+    } catch (e) {
+      console.warn('DOM measurement unavailable, falling back to estimation:', e)
+      return null
+    }
+  }, [typography, theme, canvasFormat, decorations, fonts, images, imageSizes, imageMeta])
+
+  const getPaginationOptions = useCallback((): PaginationOptions => {
+    const options: PaginationOptions = { format: layoutFormat, strategy: paginationStrategy }
+    if (paginationEngine !== 'measure') return options
+    const measurer = getDomMeasurer()
+    return measurer ? { ...options, measureHeight: measurer.measure } : options
+  }, [paginationEngine, paginationStrategy, layoutFormat, getDomMeasurer])
+
+  useEffect(() => () => {
+    domMeasurerRef.current?.measurer.dispose()
+    domMeasurerRef.current = null
+  }, [])
+
+  // Auto-mode: When typography or canvas changes, recalculate --- positions in text
   useEffect(() => {
+    const isRestoring = skipAutoPaginationRef.current
+    skipAutoPaginationRef.current = false
+    if (isRestoring) return
     if (!isAutoMode) return
     if (!originalText.trim()) return
 
     const timeout = setTimeout(() => {
-      const newText = recalculatePageBreaks(originalText, typography, imageMeta)
+      const newText = recalculatePageBreaks(originalText, typography, imageMeta, getPaginationOptions())
       if (newText !== originalText) {
+        pendingHistoryActionRef.current = 'auto-pagination'
         setOriginalText(newText)
       }
     }, 300)
     return () => clearTimeout(timeout)
-  }, [isAutoMode, typography, imageMeta, originalText])
+  }, [isAutoMode, typography, imageMeta, originalText, getPaginationOptions])
 
   const selectedCard = cards.find(c => c.id === selectedCardId)
+  const isCoverSelected = cover.enabled && selectedCardId === COVER_CARD_ID
+  // Preview order: the cover (when enabled) in front of the content cards
+  const deckIds = useMemo(
+    () => cover.enabled ? [COVER_CARD_ID, ...cards.map(c => c.id)] : cards.map(c => c.id),
+    [cover.enabled, cards],
+  )
+  const deckIndex = selectedCardId ? deckIds.indexOf(selectedCardId) : -1
+  // Checked ids that still exist; re-splitting may drop cards from the selection
+  const checkedDeckIds = deckIds.filter(id => checkedCardIds.has(id))
+  const selectedOverflowPx = selectedCardId ? cardOverflow.get(selectedCardId) : undefined
+  const selectedOverrides = selectedCard ? parseCardText(selectedCard.text).overrides : null
+  const selectedTypography = effectiveTypography(typography, selectedOverrides)
+
+  // Overflow detection: compare each rendered export card's content height with its content box
+  useEffect(() => {
+    const container = exportContainerRef.current
+    if (!container) return
+
+    const computeOverflow = () => {
+      const next = new Map<string, number>()
+      container.querySelectorAll<HTMLElement>('.card-preview').forEach(cardElement => {
+        const content = cardElement.querySelector<HTMLElement>('.card-text')
+        if (!content) return
+        const style = getComputedStyle(cardElement)
+        const available = cardElement.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom)
+        const hidden = Math.ceil(content.getBoundingClientRect().height - available)
+        if (hidden > 1) next.set(cardElement.id.replace(/^card-export-/, ''), hidden)
+      })
+      setCardOverflow(prev => (
+        prev.size === next.size && Array.from(next).every(([id, px]) => prev.get(id) === px) ? prev : next
+      ))
+    }
+
+    // Content resizes as fonts and images load, and the content box with the
+    // canvas format and header/footer bands, so observe both instead of measuring once
+    const observer = new ResizeObserver(computeOverflow)
+    container.querySelectorAll('.card-preview, .card-text').forEach(element => observer.observe(element))
+    return () => observer.disconnect()
+  }, [cards, layoutFormat, decorations])
 
   useEffect(() => {
     const element = previewViewportRef.current
@@ -124,30 +520,230 @@ function App() {
   const handleGenerate = useCallback(() => {
     if (!originalText.trim()) return
     // Calculate and insert page breaks
-    const newText = recalculatePageBreaks(originalText, typography, imageMeta)
+    const newText = recalculatePageBreaks(originalText, typography, imageMeta, getPaginationOptions())
+    pendingHistoryActionRef.current = 'pagination'
     setOriginalText(newText)
     setIsAutoMode(true) // Enable auto mode after generating
-  }, [originalText, typography, imageMeta])
+  }, [originalText, typography, imageMeta, getPaginationOptions])
 
   // "重新分页" - Recalculate --- positions
   const handleReset = useCallback(() => {
-    const newText = recalculatePageBreaks(originalText, typography, imageMeta)
+    const newText = recalculatePageBreaks(originalText, typography, imageMeta, getPaginationOptions())
+    pendingHistoryActionRef.current = 'pagination'
     setOriginalText(newText)
     setIsAutoMode(true)
-  }, [originalText, typography, imageMeta])
+  }, [originalText, typography, imageMeta, getPaginationOptions])
 
-  const handleExport = useCallback(async () => {
-    if (cards.length === 0) return
+  // "按张数排版" - Largest typography that gives the target card count, with its --- positions
+  const handleFitCardCount = useCallback(() => {
+    if (!originalText.trim()) return
+    const fit = fitTypographyToCardCount(originalText, targetCardCount, typography, imageMeta, {
+      format: layoutFormat,
+      strategy: paginationStrategy,
+    })
+    pendingHistoryActionRef.current = 'fit-cards'
+    skipAutoPaginationRef.current = true // keep the fit's breaks instead of re-paginating for the new typography
+    setTypography(fit.typography)
+    setOriginalText(fit.text)
+    setIsAutoMode(true)
+    if (fit.cards !== targetCardCount) {
+      alert(`排版范围内分不出 ${targetCardCount} 张，已调整为最接近的 ${fit.cards} 张`)
+    }
+  }, [originalText, targetCardCount, typography, imageMeta, layoutFormat, paginationStrategy])
+
+  // Title for export file names; untitled projects keep the generic names
+  const activeProjectTitle = projects.find(p => p.id === activeProjectId)?.title ?? ''
+  const exportTitle = activeProjectTitle === UNTITLED_PROJECT ? '' : activeProjectTitle
+
+  // Deck items with their position in the full set; a selection keeps those indexes in file names
+  const exportItems = useMemo(() => {
+    const items = cards.map((c, i) => ({ id: c.id, index: i + 1 }))
+    const deck = cover.enabled ? [{ id: COVER_CARD_ID, index: 0 }, ...items] : items
+    return exportScope === 'selection' ? deck.filter(item => checkedCardIds.has(item.id)) : deck
+  }, [cards, cover.enabled, exportScope, checkedCardIds])
+
+  // Scenes for the canvas renderer; it doesn't draw decorations, so those decks are captured from the page
+  const getCanvasRenderInput = useCallback((): CanvasRenderInput | undefined => {
+    if (hasDecorations(decorations)) return undefined
+    const settings = { typography, theme, format: layoutFormat, imageSizes: Object.fromEntries(imageSizes) }
+    return {
+      scenes: new Map(cards.flatMap(card => {
+        const scene = createCardScene(card, settings)
+        return scene ? [[card.id, scene] as const] : []
+      })),
+      images,
+      fonts: workerFontSources(fonts),
+    }
+  }, [cards, decorations, typography, theme, layoutFormat, imageSizes, images, fonts])
+
+  const runExport = useCallback(async (items: ExportItem[], settings: ExportSettings) => {
+    if (items.length === 0) return
+    const controller = new AbortController()
+    exportAbortRef.current = controller
+    setExportReport(null)
     setIsExporting(true)
     try {
-      await exportCards(cards.map(c => c.id))
+      const fontFamilies = [theme.fontFamily, theme.headingFontFamily, theme.markFontFamily]
+        .filter((stack): stack is string => !!stack)
+        .map(primaryFontFamily)
+      const result = await exportCards(items, canvasFormat, {
+        fontFamilies: [...new Set(fontFamilies)],
+        settings,
+        title: exportTitle,
+        canvas: settings.renderer === 'canvas' ? getCanvasRenderInput() : undefined,
+        signal: controller.signal,
+        onProgress: setExportProgress,
+      })
+      if (!result.cancelled && result.failures.length > 0) {
+        setExportReport({ items, settings, result })
+      }
+      // Cards downloaded one by one can't be taken back
+      if (result.cancelled && settings.packaging === 'files' && result.exported > 0) {
+        alert(`导出已取消，已下载的 ${result.exported} 张图片会保留`)
+      }
     } catch (error) {
       console.error('Export failed:', error)
       alert('导出失败，请重试')
+    } finally {
+      exportAbortRef.current = null
+      setExportProgress(null)
+      setIsExporting(false)
+    }
+  }, [canvasFormat, theme, exportTitle, getCanvasRenderInput])
+
+  const handleExport = useCallback((settings: ExportSettings) => {
+    setIsExportDialogOpen(false)
+    setExportSettings(settings)
+    saveExportSettings(settings)
+    runExport(exportItems, settings)
+  }, [exportItems, runExport])
+
+  const handleExportAbort = useCallback(() => exportAbortRef.current?.abort(), [])
+
+  // Zip and single files retry only the failed cards; PDF and long image need the whole sequence
+  const exportRetriesAll = exportReport !== null && (exportReport.settings.packaging === 'pdf' || exportReport.settings.packaging === 'long')
+
+  const handleExportRetry = useCallback(() => {
+    if (!exportReport) return
+    const { items, settings, result } = exportReport
+    runExport(exportRetriesAll ? items : result.failures.map(failure => failure.item), settings)
+  }, [exportReport, exportRetriesAll, runExport])
+
+  const handleExportReportClose = useCallback(() => setExportReport(null), [])
+
+  const handleExportCancel = useCallback(() => setIsExportDialogOpen(false), [])
+
+  // Development only: compare the canvas renderer with the DOM capture
+  const handleRenderDiff = useCallback(async (settings: ExportSettings) => {
+    setIsExportDialogOpen(false)
+    const input = getCanvasRenderInput()
+    if (!input) {
+      alert('Canvas 绘制不支持页眉页脚和水印，请先关闭后再对比')
+      return
+    }
+    setIsExporting(true)
+    try {
+      const { results, archive } = await runRenderDiff(exportItems, canvasFormat, input, { scale: settings.scale })
+      console.table(results)
+      downloadBlob(archive, 'render-diff.zip')
+    } catch (error) {
+      console.error('Render diff failed:', error)
     } finally {
       setIsExporting(false)
     }
-  }, [cards])
+  }, [exportItems, canvasFormat, getCanvasRenderInput])
+
+  const openExportDialog = useCallback((scope: 'all' | 'selection') => {
+    setExportScope(scope)
+    setIsExportDialogOpen(true)
+  }, [])
+
+  // Toggle a card's checkbox; with shift, apply the new state to every card from the anchor
+  const handleCardCheck = useCallback((cardId: string, shiftKey: boolean) => {
+    setCheckedCardIds(prev => {
+      const next = new Set(prev)
+      const checked = !prev.has(cardId)
+      const anchorIndex = checkAnchorRef.current ? deckIds.indexOf(checkAnchorRef.current) : -1
+      const index = deckIds.indexOf(cardId)
+      if (shiftKey && anchorIndex !== -1 && index !== -1) {
+        const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+        for (const id of deckIds.slice(from, to + 1)) {
+          if (checked) next.add(id)
+          else next.delete(id)
+        }
+      } else if (checked) {
+        next.add(cardId)
+      } else {
+        next.delete(cardId)
+      }
+      return next
+    })
+    checkAnchorRef.current = cardId
+  }, [deckIds])
+
+  const handleCheckAll = useCallback(() => setCheckedCardIds(new Set(deckIds)), [deckIds])
+
+  const handleCheckClear = useCallback(() => {
+    setCheckedCardIds(new Set())
+    checkAnchorRef.current = null
+  }, [])
+
+  const handleCoverEnable = useCallback(() => {
+    const project = projects.find(p => p.id === activeProjectId)
+    const suggestedTitle = project && project.title !== UNTITLED_PROJECT ? project.title : ''
+    setCover(prev => ({ ...prev, enabled: true, title: prev.title || suggestedTitle }))
+    setSelectedCardId(COVER_CARD_ID)
+  }, [projects, activeProjectId])
+
+  const handleCoverChange = useCallback((next: CoverSettings) => {
+    setCover(next)
+    if (!next.enabled && selectedCardIdRef.current === COVER_CARD_ID) {
+      setSelectedCardId(cardsRef.current[0]?.id ?? null)
+    }
+  }, [])
+
+  // Save the edited theme over the custom theme it came from
+  const handleThemeSave = useCallback((name: string) => {
+    const saved = { ...theme, name }
+    setCustomThemes(prev => prev.map(t => (t.id === saved.id ? saved : t)))
+    setTheme(saved)
+  }, [theme])
+
+  const handleThemeSaveAsNew = useCallback((name: string) => {
+    const created = createCustomTheme(theme, name)
+    setCustomThemes(prev => [...prev, created])
+    setTheme(created)
+  }, [theme])
+
+  const handleThemeDelete = useCallback((themeId: string) => {
+    setCustomThemes(prev => prev.filter(t => t.id !== themeId))
+  }, [])
+
+  const handleFontUpload = useCallback(async (file: File) => {
+    try {
+      const font = await readFontFile(file)
+      await registerFonts([font])
+      await saveFonts(activeProjectId, [font])
+      setFonts(prev => [...prev, font])
+    } catch (error) {
+      console.error('Font upload failed:', error)
+      alert(error instanceof Error && !(error instanceof DOMException) ? `字体上传失败：${error.message}` : '字体上传失败，文件可能已损坏')
+    }
+  }, [activeProjectId])
+
+  const handleFontDelete = useCallback((fontId: string) => {
+    deleteFonts(activeProjectId, [fontId]).catch(e => console.warn('Failed to delete font:', e))
+    unregisterFont(fontId)
+    setFonts(prev => prev.filter(f => f.id !== fontId))
+    // Text set in the deleted font goes back to the default face
+    const stack = fontStack({ id: fontId })
+    setTheme(prev => ({
+      ...prev,
+      fontFamily: prev.fontFamily === stack ? SERIF_FONT_STACK : prev.fontFamily,
+      headingFontFamily: prev.headingFontFamily === stack ? SERIF_FONT_STACK : prev.headingFontFamily,
+      markFontFamily: prev.markFontFamily === stack ? undefined : prev.markFontFamily,
+    }))
+  }, [activeProjectId])
 
   const handleCardClick = (card: Card) => {
     setSelectedCardId(card.id)
@@ -163,16 +759,13 @@ function App() {
   }
 
   const handleImageAdd = useCallback((id: string, base64: string) => {
+    pendingHistoryActionRef.current = 'image-add'
     setImages(prev => new Map(prev).set(id, base64))
-
-    const img = new Image()
-    img.onload = () => {
-      setImageMeta(prev => new Map(prev).set(id, { width: img.naturalWidth, height: img.naturalHeight }))
-    }
-    img.src = base64
-  }, [])
+    loadImageMeta(id, base64)
+  }, [loadImageMeta])
 
   const handleImageRemove = useCallback((id: string) => {
+    pendingHistoryActionRef.current = 'image-remove'
     setImages(prev => {
       const newMap = new Map(prev)
       newMap.delete(id)
@@ -191,6 +784,7 @@ function App() {
   }, [])
 
   const handleImageResize = useCallback((id: string, widthPercent: number) => {
+    pendingHistoryActionRef.current = 'image-resize'
     setImageSizes(prev => new Map(prev).set(id, Math.min(100, Math.max(20, widthPercent))))
   }, [])
 
@@ -203,33 +797,10 @@ function App() {
     isEditingCardRef.current = true
 
     // Split text by --- and rebuild with updated card content
-    const parts: string[] = []
-    const delimiterRegex = /^[ \t]*---[ \t]*$/gm
-    let lastIndex = 0
-    let partIndex = 0
-    let match: RegExpExecArray | null
-
-    while ((match = delimiterRegex.exec(originalText)) !== null) {
-      const content = originalText.slice(lastIndex, match.index).trim()
-      if (content) {
-        // If this is the card being edited, use newText
-        parts.push(partIndex === cardIndex ? newText : content)
-        partIndex++
-      }
-      lastIndex = match.index + match[0].length
-      // Skip trailing newline after ---
-      if (originalText[lastIndex] === '\n') lastIndex++
-    }
-
-    // Add remaining content
-    const remaining = originalText.slice(lastIndex).trim()
-    if (remaining) {
-      parts.push(partIndex === cardIndex ? newText : remaining)
-    }
-
-    // Rebuild text with --- between parts
-    const newOriginalText = parts.join('\n\n---\n\n')
-    setOriginalText(newOriginalText)
+    const parts = splitCardParts(originalText)
+    parts[cardIndex] = newText
+    pendingHistoryActionRef.current = 'card-edit'
+    setOriginalText(joinCardParts(parts))
 
     // Directly update the card text (preserves card id and component state)
     setCards(prevCards => prevCards.map(c =>
@@ -237,9 +808,133 @@ function App() {
     ))
   }, [cards, originalText])
 
+  // Split an overflowing card at the cut auto pagination would choose
+  const handleSplitOverflow = useCallback((cardId: string) => {
+    const cardIndex = cards.findIndex(c => c.id === cardId)
+    if (cardIndex === -1) return
+
+    const parts = splitCardParts(originalText)
+    const cardText = parts[cardIndex]
+    if (!cardText) return
+
+    const heightOf = getDomMeasurer()?.measure ?? createEstimateMeasurer(typography, imageMeta, layoutFormat)
+    const cut = findOverflowCut(cardText, heightOf, layoutFormat, typography)
+    if (cut === -1) return
+
+    parts.splice(cardIndex, 1, ...splitTextAt(cardText, cut).map(part => part.trim()))
+    pendingHistoryActionRef.current = 'split'
+    setOriginalText(joinCardParts(parts.filter(Boolean)))
+  }, [cards, originalText, typography, imageMeta, layoutFormat, getDomMeasurer])
+
+  // Rewrite the text from rearranged card parts. `ids` gives each part the id
+  // of the card it came from (undefined for a new card), so selection,
+  // checkboxes and thumbnail state follow the cards instead of positions.
+  const applyCardParts = useCallback((parts: string[], ids: (string | undefined)[], action: HistoryAction) => {
+    const nextText = joinCardParts(parts)
+    if (nextText === originalText) return
+
+    isEditingCardRef.current = true
+    pendingHistoryActionRef.current = action
+    setOriginalText(nextText)
+    setCards(splitToCards(nextText).map((card, i) => ({ ...card, id: ids[i] ?? card.id })))
+  }, [originalText])
+
+  // Drag and drop: place `draggedId` before or after `targetId`
+  const handleCardReorder = useCallback((draggedId: string, targetId: string, placeAfter: boolean) => {
+    const from = cards.findIndex(c => c.id === draggedId)
+    const target = cards.findIndex(c => c.id === targetId)
+    if (from === -1 || target === -1 || draggedId === targetId) return
+
+    // Target index once the dragged card is out of the list
+    const to = (target > from ? target - 1 : target) + (placeAfter ? 1 : 0)
+    if (to === from) return
+    const ids = moveCardPart(cards.map(c => c.id), from, to)
+    applyCardParts(moveCardPart(splitCardParts(originalText), from, to), ids, 'reorder')
+  }, [cards, originalText, applyCardParts])
+
+  // Merge a card with the one after it; the merged card keeps the first id
+  const handleCardMergeNext = useCallback((cardId: string) => {
+    const index = cards.findIndex(c => c.id === cardId)
+    if (index === -1 || index >= cards.length - 1) return
+
+    const removedId = cards[index + 1].id
+    const ids = cards.map(c => c.id).filter(id => id !== removedId)
+    applyCardParts(mergeCardParts(splitCardParts(originalText), index), ids, 'merge')
+    if (selectedCardId === removedId) setSelectedCardId(cardId)
+    setCheckedCardIds(prev => {
+      if (!prev.has(removedId)) return prev
+      const next = new Set(prev)
+      next.delete(removedId)
+      next.add(cardId)
+      return next
+    })
+  }, [cards, originalText, selectedCardId, applyCardParts])
+
+  // Rewrite the `@card` directive of a card from the style panel
+  const handleCardOverridesChange = useCallback((cardId: string, overrides: CardOverrides) => {
+    const index = cards.findIndex(c => c.id === cardId)
+    if (index === -1) return
+
+    const parts = splitCardParts(originalText)
+    parts[index] = setCardOverrides(parts[index], overrides)
+    applyCardParts(parts.filter(Boolean), cards.map(c => c.id), 'card-style')
+  }, [cards, originalText, applyCardParts])
+
+  // Split a card at a paragraph the user picked; the second half is a new card
+  const handleCardSplitAt = useCallback((cardId: string, offset: number) => {
+    const index = cards.findIndex(c => c.id === cardId)
+    if (index === -1) return
+
+    const ids: (string | undefined)[] = cards.map(c => c.id)
+    ids.splice(index + 1, 0, undefined)
+    applyCardParts(splitCardPart(splitCardParts(originalText), index, offset), ids, 'split')
+  }, [cards, originalText, applyCardParts])
+
+  const updateTypography = useCallback((update: (prev: Typography) => Typography) => {
+    pendingHistoryActionRef.current = 'typography'
+    setTypography(update)
+  }, [])
+
+  // Restore a history entry (undo, redo, or a jump from the history list)
+  const handleHistoryMove = useCallback((index: number) => {
+    const current = historyRef.current
+    const entry = current.entries[index]
+    if (!entry || index === current.index) return
+    const { snapshot } = entry
+    if (snapshot.originalText !== originalText || snapshot.typography !== typography) {
+      skipAutoPaginationRef.current = true
+    }
+    setOriginalText(snapshot.originalText)
+    setTypography(snapshot.typography)
+    setImages(snapshot.images)
+    setImageSizes(snapshot.imageSizes)
+    for (const [id, src] of snapshot.images) {
+      if (!imageMeta.has(id)) loadImageMeta(id, src)
+    }
+    setHistory(moveHistory(current, index))
+  }, [originalText, typography, imageMeta, loadImageMeta])
+
+  const handleUndo = useCallback(() => handleHistoryMove(historyRef.current.index - 1), [handleHistoryMove])
+  const handleRedo = useCallback(() => handleHistoryMove(historyRef.current.index + 1), [handleHistoryMove])
+
+  // Ctrl+Z / Ctrl+Shift+Z; other form fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.isComposing || e.key.toLowerCase() !== 'z') return
+      const target = e.target instanceof HTMLElement ? e.target : null
+      const isEditable = target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+      if (isEditable && !target.closest('[data-app-history]')) return
+      e.preventDefault()
+      if (e.shiftKey) handleRedo()
+      else handleUndo()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
+
   const fitScale = (() => {
-    const baseWidth = 1080
-    const baseHeight = 1440
+    const baseWidth = canvasFormat.width
+    const baseHeight = canvasFormat.height
     const padding = 24 // match preview viewport padding (p-6)
     if (!previewViewportSize) return 0.3
 
@@ -256,13 +951,27 @@ function App() {
     <div className="h-screen flex flex-col overflow-hidden">
       {/* Header */}
       <header className="shrink-0 bg-white border-b border-stone-200 px-6 py-2 flex items-center justify-between">
-        <h1 className="text-lg font-semibold text-stone-800 tracking-wide">
-          「文字」转「图文笔记」神器
-        </h1>
-        <div className="flex gap-3">
+        <div className="flex items-center gap-4 min-w-0">
+          <h1 className="text-lg font-semibold text-stone-800 tracking-wide shrink-0">
+            「文字」转「图文笔记」神器
+          </h1>
+          <ProjectSwitcher
+            projects={projects}
+            activeProjectId={activeProjectId}
+            onOpen={handleProjectOpen}
+            onCreate={handleProjectCreate}
+            onRename={handleProjectRename}
+            onDuplicate={handleProjectDuplicate}
+            onDelete={handleProjectDelete}
+            onExport={handleProjectExport}
+            onImport={handleProjectImport}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <HistoryPanel history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleHistoryMove} />
           <button
-            onClick={handleExport}
-            disabled={cards.length === 0 || isExporting}
+            onClick={() => openExportDialog('all')}
+            disabled={deckIds.length === 0 || isExporting}
             className="px-4 py-2 text-sm text-white bg-stone-800 rounded-lg
                        hover:bg-stone-900 disabled:opacity-50 disabled:cursor-not-allowed
                        transition-colors"
@@ -316,15 +1025,92 @@ function App() {
                 />
                 自动
               </label>
+              <select
+                value={paginationEngine}
+                onChange={(e) => setPaginationEngine(e.target.value as PaginationEngine)}
+                className="text-xs text-stone-600 bg-white border border-stone-200 rounded-md px-1 py-1 cursor-pointer"
+                title="分页引擎：估算速度快；实测按真实排版计算，更准确"
+              >
+                <option value="estimate">估算</option>
+                <option value="measure">实测</option>
+              </select>
+              <select
+                value={paginationEngine === 'measure' ? 'greedy' : paginationStrategy}
+                onChange={(e) => setPaginationStrategy(e.target.value as PaginationStrategy)}
+                disabled={paginationEngine === 'measure'}
+                className="text-xs text-stone-600 bg-white border border-stone-200 rounded-md px-1 py-1 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                title={paginationEngine === 'measure'
+                  ? '均衡分页需要反复计算卡片高度，只支持估算引擎'
+                  : '分页策略：逐张填满每张卡片；均衡让各张卡片填充更平均，并尽量在段落或句子结束处断开'}
+              >
+                <option value="greedy">逐张填满</option>
+                <option value="balanced">均衡</option>
+              </select>
+            </div>
+            <div className="shrink-0 mt-2 flex items-center gap-2 text-xs text-stone-600">
+              <span className="text-stone-500">目标张数</span>
+              <input
+                type="number"
+                min={1}
+                max={99}
+                value={targetCardCount}
+                onChange={(e) => setTargetCardCount(Math.min(99, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                className="w-14 px-1 py-1 bg-white border border-stone-200 rounded-md text-center"
+              />
+              <button
+                onClick={handleFitCardCount}
+                disabled={!originalText.trim()}
+                className="px-2 py-1 rounded-md border border-stone-200 hover:bg-stone-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="在可读范围内（字号 32–60）找出分成这么多张的最大字号、行高和段距，并重新分页"
+              >
+                按张数排版
+              </button>
             </div>
           </div>
         }
         middlePanel={
           <div className="p-4 flex flex-col h-full relative z-20">
-            <div className="shrink-0 text-sm font-medium text-stone-600 mb-3">
-              卡片列表 {cards.length > 0 && `(${cards.length})`}
+            <div className="shrink-0 mb-3 flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-stone-600">
+                卡片列表 {cards.length > 0 && `(${cards.length})`}
+              </span>
+              {deckIds.length > 0 && (
+                <div className="flex items-center gap-2 text-xs text-stone-500">
+                  {checkedDeckIds.length > 0 && <span>已选 {checkedDeckIds.length}</span>}
+                  <button
+                    onClick={checkedDeckIds.length === deckIds.length ? handleCheckClear : handleCheckAll}
+                    className="hover:text-stone-800"
+                  >
+                    {checkedDeckIds.length === deckIds.length ? '取消全选' : '全选'}
+                  </button>
+                  {checkedDeckIds.length > 0 && (
+                    <>
+                      <button onClick={handleCheckClear} className="hover:text-stone-800">清除</button>
+                      <button
+                        onClick={() => openExportDialog('selection')}
+                        disabled={isExporting}
+                        className="px-2 py-0.5 text-white bg-stone-800 rounded hover:bg-stone-900 disabled:opacity-50"
+                      >
+                        导出所选
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
             <div className="flex-1 overflow-y-auto min-h-0">
+              <div className="mb-2">
+                <CoverEditor
+                  cover={cover}
+                  images={images}
+                  isSelected={isCoverSelected}
+                  onClick={() => setSelectedCardId(COVER_CARD_ID)}
+                  onChange={handleCoverChange}
+                  onEnable={handleCoverEnable}
+                  isChecked={checkedCardIds.has(COVER_CARD_ID)}
+                  onCheckedChange={(shiftKey) => handleCardCheck(COVER_CARD_ID, shiftKey)}
+                />
+              </div>
               {cards.length === 0 ? (
                 <div className="text-sm text-stone-400 text-center py-10">
                   点击「生成分页」生成卡片
@@ -339,6 +1125,13 @@ function App() {
                       isSelected={card.id === selectedCardId}
                       onClick={() => handleCardClick(card)}
                       onTextChange={handleCardTextChange}
+                      overflowPx={cardOverflow.get(card.id)}
+                      onSplitOverflow={handleSplitOverflow}
+                      onReorder={handleCardReorder}
+                      onMergeNext={index < cards.length - 1 ? handleCardMergeNext : undefined}
+                      onSplitAt={handleCardSplitAt}
+                      isChecked={checkedCardIds.has(card.id)}
+                      onCheckedChange={handleCardCheck}
                     />
                   ))}
                 </div>
@@ -353,66 +1146,67 @@ function App() {
               <div className="flex items-center gap-1">
                 <span className="text-stone-500">字号:</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, fontSize: Math.max(20, t.fontSize - 2) }))}
+                  onClick={() => updateTypography(t => ({ ...t, fontSize: Math.max(20, t.fontSize - 2) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >-</button>
                 <span className="w-6 text-center">{typography.fontSize}</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, fontSize: Math.min(60, t.fontSize + 2) }))}
+                  onClick={() => updateTypography(t => ({ ...t, fontSize: Math.min(60, t.fontSize + 2) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >+</button>
               </div>
               <div className="flex items-center gap-1">
                 <span className="text-stone-500">行间距:</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, lineHeight: Math.max(1.2, +(t.lineHeight - 0.1).toFixed(1)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, lineHeight: Math.max(1.2, +(t.lineHeight - 0.1).toFixed(1)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >-</button>
                 <span className="w-6 text-center">{typography.lineHeight}</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, lineHeight: Math.min(2.5, +(t.lineHeight + 0.1).toFixed(1)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, lineHeight: Math.min(2.5, +(t.lineHeight + 0.1).toFixed(1)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >+</button>
               </div>
               <div className="flex items-center gap-1">
                 <span className="text-stone-500">段距:</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, paragraphSpacing: Math.max(0.5, +(t.paragraphSpacing - 0.1).toFixed(1)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, paragraphSpacing: Math.max(0.5, +(t.paragraphSpacing - 0.1).toFixed(1)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >-</button>
                 <span className="w-6 text-center">{typography.paragraphSpacing}</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, paragraphSpacing: Math.min(3, +(t.paragraphSpacing + 0.1).toFixed(1)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, paragraphSpacing: Math.min(3, +(t.paragraphSpacing + 0.1).toFixed(1)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >+</button>
               </div>
               <div className="flex items-center gap-1">
                 <span className="text-stone-500">字距:</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, letterSpacing: Math.max(0, +((t.letterSpacing ?? 0.05) - 0.01).toFixed(2)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, letterSpacing: Math.max(0, +((t.letterSpacing ?? 0.05) - 0.01).toFixed(2)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >-</button>
                 <span className="w-6 text-center">{(typography.letterSpacing ?? 0.05).toFixed(2)}</span>
                 <button
-                  onClick={() => setTypography(t => ({ ...t, letterSpacing: Math.min(0.12, +((t.letterSpacing ?? 0.05) + 0.01).toFixed(2)) }))}
+                  onClick={() => updateTypography(t => ({ ...t, letterSpacing: Math.min(0.12, +((t.letterSpacing ?? 0.05) + 0.01).toFixed(2)) }))}
                   className="w-5 h-5 rounded bg-stone-100 hover:bg-stone-200"
                 >+</button>
               </div>
+              <CanvasFormatSelector key={activeProjectId} value={canvasFormat} onChange={setCanvasFormat} />
+              <DecorationSettings value={decorations} onChange={setDecorations} />
             </div>
             {/* Preview Area with Background Selector */}
             <div className="flex-1 min-h-0 min-w-0 flex gap-3">
               {/* Card Preview Section */}
-              {selectedCard ? (
+              {selectedCard || isCoverSelected ? (
                 <div className="flex-1 min-h-0 min-w-0 flex flex-col">
                   {/* Card Preview with Navigation */}
                   <div className="flex-1 flex items-stretch min-h-0 min-w-0 relative">
                     {/* Left Arrow */}
                     <button
                       onClick={() => {
-                        const idx = cards.findIndex(c => c.id === selectedCardId)
-                        if (idx > 0) setSelectedCardId(cards[idx - 1].id)
+                        if (deckIndex > 0) setSelectedCardId(deckIds[deckIndex - 1])
                       }}
-                      disabled={cards.findIndex(c => c.id === selectedCardId) === 0}
+                      disabled={deckIndex === 0}
                       className="absolute left-0 top-0 bottom-0 w-12 z-10
                                  flex items-center justify-center
                                  bg-stone-100/30 hover:bg-stone-200/60
@@ -422,31 +1216,60 @@ function App() {
                       <span className="text-lg text-stone-300 group-hover:text-stone-500 transition-colors">‹</span>
                     </button>
 
+                    {/* Overflow Warning */}
+                    {selectedOverflowPx !== undefined && (
+                      <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-3 py-1.5
+                                      rounded-full bg-red-50 border border-red-200 text-xs text-red-600 shadow-sm whitespace-nowrap">
+                        <span>⚠ 内容超出画布 {selectedOverflowPx}px（约 {Math.ceil(selectedOverflowPx / (selectedTypography.fontSize * selectedTypography.lineHeight))} 行被隐藏）</span>
+                        <button
+                          onClick={() => selectedCardId && handleSplitOverflow(selectedCardId)}
+                          className="px-2 py-0.5 rounded-full bg-red-500 text-white hover:bg-red-600 transition-colors"
+                          title="在最佳位置拆分为两张卡片"
+                        >
+                          拆分
+                        </button>
+                      </div>
+                    )}
+
                     {/* Card Preview */}
                     <div
                       ref={previewViewportRef}
                       className="flex-1 min-h-0 min-w-0 overflow-auto p-6 bg-white/60 rounded-lg border border-stone-200"
                     >
                       <div className="min-h-full min-w-full flex items-center justify-center">
-                        <CardPreview
-                          card={selectedCard}
-                          images={images}
-                          imageSizes={imageSizes}
-                          onImageResize={handleImageResize}
-                          typography={typography}
-                          backgroundStyle={backgroundStyle}
-                          displayScale={effectivePreviewScale}
-                        />
+                        {selectedCard ? (
+                          <CardPreview
+                            card={selectedCard}
+                            images={images}
+                            imageSizes={imageSizes}
+                            imageMeta={imageMeta}
+                            onImageResize={handleImageResize}
+                            typography={typography}
+                            theme={theme}
+                            canvasFormat={canvasFormat}
+                            decorations={decorations}
+                            page={{ number: cards.indexOf(selectedCard) + 1, total: cards.length }}
+                            displayScale={effectivePreviewScale}
+                          />
+                        ) : (
+                          <CoverPreview
+                            cover={cover}
+                            images={images}
+                            theme={theme}
+                            canvasFormat={canvasFormat}
+                            decorations={decorations}
+                            displayScale={effectivePreviewScale}
+                          />
+                        )}
                       </div>
                     </div>
 
                     {/* Right Arrow */}
                     <button
                       onClick={() => {
-                        const idx = cards.findIndex(c => c.id === selectedCardId)
-                        if (idx < cards.length - 1) setSelectedCardId(cards[idx + 1].id)
+                        if (deckIndex < deckIds.length - 1) setSelectedCardId(deckIds[deckIndex + 1])
                       }}
-                      disabled={cards.findIndex(c => c.id === selectedCardId) === cards.length - 1}
+                      disabled={deckIndex === deckIds.length - 1}
                       className="absolute right-0 top-0 bottom-0 w-12 z-10
                                  flex items-center justify-center
                                  bg-stone-100/30 hover:bg-stone-200/60
@@ -460,8 +1283,16 @@ function App() {
                   {/* Card Counter + Zoom Controls */}
                   <div className="shrink-0 flex items-center justify-center gap-4 py-1 relative z-20">
                     <div className="text-xs text-stone-400">
-                      {cards.findIndex(c => c.id === selectedCardId) + 1} / {cards.length}
+                      {deckIndex + 1} / {deckIds.length}
                     </div>
+                    {selectedCard && (
+                      <CardStylePanel
+                        overrides={selectedOverrides}
+                        detectedLayout={detectCardLayout(parseCardText(selectedCard.text).body)}
+                        typography={typography}
+                        onChange={(overrides) => handleCardOverridesChange(selectedCard.id, overrides)}
+                      />
+                    )}
                     <div className="flex items-center gap-2 text-xs">
                       <button
                         onClick={() => setPreviewScale(s => Math.max(0.5, +(s - 0.05).toFixed(2)))}
@@ -485,13 +1316,30 @@ function App() {
                   {/* Thumbnail Strip */}
                   <div className="shrink-0 min-w-0 py-2 bg-white rounded-lg border border-stone-200 overflow-x-auto overflow-y-hidden relative z-20">
                     <div className="flex gap-1.5 px-4 w-max">
+                      {cover.enabled && (
+                        <button
+                          onClick={() => setSelectedCardId(COVER_CARD_ID)}
+                          style={{ height: Math.round(48 * canvasFormat.height / canvasFormat.width) }}
+                          className={`shrink-0 w-12 rounded border transition-all flex flex-col items-center justify-between p-1 overflow-hidden
+                            ${isCoverSelected
+                              ? 'border-stone-800 bg-stone-50 shadow'
+                              : 'border-stone-200 bg-white hover:border-stone-400'
+                            }`}
+                        >
+                          <div className="w-full flex-1 text-[6px] leading-[1.3] font-bold text-stone-600 text-left overflow-hidden break-all">
+                            {cover.title.trim().slice(0, 16) || '封面'}
+                          </div>
+                          <div className="text-[8px] font-medium text-stone-400 mt-0.5">封面</div>
+                        </button>
+                      )}
                       {cards.map((card, index) => {
-                        const previewText = card.text.replace(/[[\]#*=_]/g, '').trim().slice(0, 20)
+                        const previewText = parseCardDocument(card.text).blocks.map(blockText).join(' ').trim().slice(0, 20)
                         return (
                           <button
                             key={card.id}
                             onClick={() => setSelectedCardId(card.id)}
-                            className={`shrink-0 w-12 h-16 rounded border transition-all flex flex-col items-center justify-between p-1 overflow-hidden
+                            style={{ height: Math.round(48 * canvasFormat.height / canvasFormat.width) }}
+                            className={`shrink-0 w-12 rounded border transition-all flex flex-col items-center justify-between p-1 overflow-hidden
                               ${card.id === selectedCardId
                                 ? 'border-stone-800 bg-stone-50 shadow'
                                 : 'border-stone-200 bg-white hover:border-stone-400'
@@ -521,31 +1369,69 @@ function App() {
                 </div>
               )}
 
-              {/* Background Style Selector */}
-              <div className="shrink-0 w-16 flex flex-col gap-2 py-2 relative z-30">
-                <div className="text-xs text-stone-400 text-center mb-1">背景</div>
-                {(['classic', 'grid', 'paper', 'grain'] as BackgroundStyle[]).map(style => (
-                  <button
-                    key={style}
-                    onClick={() => setBackgroundStyle(style)}
-                    className={`w-full py-2 rounded-lg text-xs transition-all cursor-pointer ${backgroundStyle === style
-                      ? 'bg-stone-800 text-white shadow-md'
-                      : 'bg-white text-stone-600 hover:bg-stone-100 border border-stone-200'
-                      }`}
-                  >
-                    {style === 'classic' ? '经典' : style === 'grid' ? '网格' : style === 'paper' ? '纸感' : '冷白'}
-                  </button>
-                ))}
-              </div>
+              {/* Theme Selector */}
+              <ThemePicker
+                theme={theme}
+                customThemes={customThemes}
+                fonts={fonts}
+                onSelect={setTheme}
+                onChange={setTheme}
+                onSave={handleThemeSave}
+                onSaveAsNew={handleThemeSaveAsNew}
+                onDelete={handleThemeDelete}
+                onFontUpload={handleFontUpload}
+                onFontDelete={handleFontDelete}
+              />
             </div>
           </div>
         }
       />
 
+      {isExportDialogOpen && (
+        <ExportDialog
+          initialSettings={exportSettings}
+          cardCount={exportItems.length}
+          isSelection={exportScope === 'selection'}
+          firstIndex={exportItems[0]?.index}
+          canvasFormat={canvasFormat}
+          title={exportTitle}
+          onConfirm={handleExport}
+          onCancel={handleExportCancel}
+          onRenderDiff={import.meta.env.DEV ? handleRenderDiff : undefined}
+        />
+      )}
+
+      {(exportProgress || exportReport) && (
+        <ExportProgressDialog
+          progress={exportProgress}
+          failures={exportReport?.result.failures ?? null}
+          exported={exportReport?.result.exported ?? 0}
+          retriesAll={exportRetriesAll}
+          onCancel={handleExportAbort}
+          onRetry={handleExportRetry}
+          onClose={handleExportReportClose}
+        />
+      )}
+
       {/* Hidden export containers */}
-      <div style={{ position: 'absolute', visibility: 'hidden', opacity: 0, pointerEvents: 'none' }}>
-        {cards.map(card => (
-          <CardPreview key={card.id} card={card} images={images} imageSizes={imageSizes} typography={typography} backgroundStyle={backgroundStyle} forExport />
+      <div ref={exportContainerRef} style={{ position: 'absolute', visibility: 'hidden', opacity: 0, pointerEvents: 'none' }}>
+        {cover.enabled && (
+          <CoverPreview cover={cover} images={images} theme={theme} canvasFormat={canvasFormat} decorations={decorations} forExport />
+        )}
+        {cards.map((card, index) => (
+          <CardPreview
+            key={card.id}
+            card={card}
+            images={images}
+            imageSizes={imageSizes}
+            imageMeta={imageMeta}
+            typography={typography}
+            theme={theme}
+            canvasFormat={canvasFormat}
+            decorations={decorations}
+            page={{ number: index + 1, total: cards.length }}
+            forExport
+          />
         ))}
       </div>
     </div>
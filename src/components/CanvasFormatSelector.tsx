@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import {
+    CANVAS_PRESETS,
+    CANVAS_FORMAT_LABELS,
+    CUSTOM_SIZE_MIN,
+    CUSTOM_SIZE_MAX,
+    createCustomFormat,
+    type CanvasFormat,
+    type CanvasFormatId,
+} from '../utils/canvasFormat'
+
+interface CanvasFormatSelectorProps {
+    value: CanvasFormat
+    onChange: (format: CanvasFormat) => void
+}
+
+const FORMAT_IDS: CanvasFormatId[] = ['3:4', '1:1', '4:5', '9:16', 'custom']
+
+export function CanvasFormatSelector({ value, onChange }: CanvasFormatSelectorProps) {
+    // Draft values so typing an intermediate size doesn't re-layout every card
+    const [customWidth, setCustomWidth] = useState(String(value.width))
+    const [customHeight, setCustomHeight] = useState(String(value.height))
+
+    const handleSelect = (id: CanvasFormatId) => {
+        if (id === 'custom') {
+            onChange(createCustomFormat(value.width, value.height))
+            setCustomWidth(String(value.width))
+            setCustomHeight(String(value.height))
+            return
+        }
+        onChange(CANVAS_PRESETS[id])
+    }
+
+    const commitCustom = () => {
+        const width = Number.parseInt(customWidth, 10)
+        const height = Number.parseInt(customHeight, 10)
+        if (!Number.isFinite(width) || !Number.isFinite(height)) return
+        const format = createCustomFormat(width, height)
+        setCustomWidth(String(format.width))
+        setCustomHeight(String(format.height))
+        onChange(format)
+    }
+
+    return (
+        <div className="flex items-center gap-1">
+            <span className="text-stone-500">画布:</span>
+            <select
+                value={value.id}
+                onChange={(e) => handleSelect(e.target.value as CanvasFormatId)}
+                className="text-xs text-stone-600 bg-white border border-stone-200 rounded px-1 py-0.5 cursor-pointer"
+                title={`${value.width}×${value.height}`}
+            >
+                {FORMAT_IDS.map(id => (
+                    <option key={id} value={id}>{CANVAS_FORMAT_LABELS[id]}</option>
+                ))}
+            </select>
+            {value.id === 'custom' && (
+                <>
+                    {[
+                        { label: '宽', value: customWidth, set: setCustomWidth },
+                        { label: '高', value: customHeight, set: setCustomHeight },
+                    ].map(field => (
+                        <input
+                            key={field.label}
+                            type="number"
+                            min={CUSTOM_SIZE_MIN}
+                            max={CUSTOM_SIZE_MAX}
+                            value={field.value}
+                            aria-label={field.label}
+                            title={field.label}
+                            onChange={(e) => field.set(e.target.value)}
+                            onBlur={commitCustom}
+                            onKeyDown={(e) => { if (e.key === 'Enter') commitCustom() }}
+                            className="w-14 px-1 py-0.5 text-xs border border-stone-200 rounded"
+                        />
+                    ))}
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,97 @@
+import { Fragment, type ReactNode } from 'react'
+import { type Block, type Inline } from '../utils/cardDocument'
+
+interface CardBlocksProps {
+    blocks: Block[]
+    // Renders an `[IMG:id]` block; the placeholder text shows without it
+    renderImage?: (id: string) => ReactNode
+}
+
+/**
+ * Inline content as the card stylesheet's elements (a template's title, item
+ * or highlighted sentence).
+ */
+export function CardInlines({ inlines }: { inlines: Inline[] }) {
+    return inlines.map(inline => {
+        const key = inline.start
+        switch (inline.type) {
+            case 'text':
+                return <Fragment key={key}>{inline.text}</Fragment>
+            case 'break':
+                return <br key={key} />
+            case 'code':
+                return <code key={key}>{inline.text}</code>
+            case 'strong':
+                return <strong key={key}><CardInlines inlines={inline.children} /></strong>
+            case 'em':
+                return <em key={key}><CardInlines inlines={inline.children} /></em>
+            case 'underline':
+                return <u key={key}><CardInlines inlines={inline.children} /></u>
+            case 'mark':
+                return <mark key={key}><CardInlines inlines={inline.children} /></mark>
+            case 'delete':
+                return <del key={key}><CardInlines inlines={inline.children} /></del>
+            case 'link':
+                // Cards are images: a link reads as its text
+                return <Fragment key={key}><CardInlines inlines={inline.children} /></Fragment>
+        }
+    })
+}
+
+function BlockNode({ block, renderImage }: { block: Block; renderImage?: (id: string) => ReactNode }) {
+    switch (block.kind) {
+        case 'paragraph':
+            return <p><CardInlines inlines={block.inlines} /></p>
+        case 'heading': {
+            const Heading = `h${block.level}` as const
+            return <Heading><CardInlines inlines={block.inlines} /></Heading>
+        }
+        case 'image':
+            return renderImage ? renderImage(block.id) : <span>[IMG:{block.id}]</span>
+        case 'list': {
+            const items = block.items.map(item => <li key={item.start}><CardInlines inlines={item.inlines} /></li>)
+            return block.ordered
+                ? <ol start={block.startNumber === 1 ? undefined : block.startNumber}>{items}</ol>
+                : <ul>{items}</ul>
+        }
+        case 'blockquote':
+            return <blockquote><CardBlocks blocks={block.blocks} renderImage={renderImage} /></blockquote>
+        case 'keep':
+            return <CardBlocks blocks={block.blocks} renderImage={renderImage} />
+        case 'code':
+            return (
+                <pre>
+                    <code className={block.info ? `language-${block.info.split(/\s/)[0]}` : undefined}>{block.text}</code>
+                </pre>
+            )
+        case 'table':
+            return (
+                <table>
+                    <thead>
+                        <tr>
+                            {block.header.map(cell => <th key={cell.start}><CardInlines inlines={cell.inlines} /></th>)}
+                        </tr>
+                    </thead>
+                    {block.rows.length > 0 && (
+                        <tbody>
+                            {block.rows.map(row => (
+                                <tr key={row[0]?.start}>
+                                    {block.header.map((_, col) => (
+                                        <td key={col}>{row[col] && <CardInlines inlines={row[col].inlines} />}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    )}
+                </table>
+            )
+    }
+}
+
+/**
+ * Blocks of the card document model as the card stylesheet's elements
+ * (`.card-text` in index.css).
+ */
+export function CardBlocks({ blocks, renderImage }: CardBlocksProps) {
+    return blocks.map(block => <BlockNode key={block.start} block={block} renderImage={renderImage} />)
+}
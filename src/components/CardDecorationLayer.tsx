@@ -0,0 +1,145 @@
+import type { ReactNode } from 'react'
+import type { CanvasFormat } from '../utils/canvasFormat'
+import {
+    getAvatarSize,
+    getHeaderBandHeight,
+    getFooterBandHeight,
+    formatPageNumber,
+    type CardDecorations,
+    type DecorationAlign,
+    type WatermarkDecoration,
+} from '../utils/cardDecorations'
+
+export interface CardPage {
+    number: number
+    total: number
+}
+
+interface CardDecorationBandsProps {
+    decorations: CardDecorations
+    // Undecorated format: bands sit where its content box begins and ends
+    canvasFormat: CanvasFormat
+    page?: CardPage
+}
+
+const ALIGNS: DecorationAlign[] = ['left', 'center', 'right']
+
+function Band({ slots, height, style }: { slots: Partial<Record<DecorationAlign, ReactNode[]>>; height: number; style: React.CSSProperties }) {
+    return (
+        <div className="card-band" style={{ ...style, height }}>
+            {ALIGNS.map(align => (
+                <div key={align} className={`card-band-slot card-band-${align}`}>
+                    {slots[align]}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export function CardDecorationBands({ decorations, canvasFormat, page }: CardDecorationBandsProps) {
+    const { header, footer, pageNumber } = decorations
+    const headerHeight = getHeaderBandHeight(decorations)
+    const footerHeight = getFooterBandHeight(decorations)
+
+    const headerSlots: Partial<Record<DecorationAlign, ReactNode[]>> = {}
+    const footerSlots: Partial<Record<DecorationAlign, ReactNode[]>> = {}
+    const place = (slots: typeof headerSlots, align: DecorationAlign, node: ReactNode) => {
+        slots[align] = [...(slots[align] ?? []), node]
+    }
+
+    if (header.enabled) {
+        const avatarSize = getAvatarSize(header)
+        place(headerSlots, header.align, (
+            <div key="header" className="card-header" style={{ fontSize: header.fontSize, color: header.color }}>
+                {header.avatar && (
+                    <img src={header.avatar} alt="" className="card-avatar" style={{ width: avatarSize, height: avatarSize }} />
+                )}
+                {header.name.trim() && <span>{header.name.trim()}</span>}
+            </div>
+        ))
+    }
+    if (footer.enabled && footer.text.trim()) {
+        place(footerSlots, footer.align, (
+            <div key="footer" className="card-footer" style={{ fontSize: footer.fontSize, color: footer.color }}>
+                {footer.text.trim()}
+            </div>
+        ))
+    }
+    if (pageNumber.enabled && page) {
+        place(pageNumber.placement === 'header' ? headerSlots : footerSlots, pageNumber.align, (
+            <div
+                key="page"
+                className={`card-page-number card-page-${pageNumber.style}`}
+                style={{ fontSize: pageNumber.fontSize, color: pageNumber.color }}
+            >
+                {formatPageNumber(pageNumber.style, page.number, page.total)}
+            </div>
+        ))
+    }
+
+    const horizontal = { left: canvasFormat.paddingX, right: canvasFormat.paddingX }
+    return (
+        <>
+            {headerHeight > 0 && (
+                <Band slots={headerSlots} height={headerHeight} style={{ ...horizontal, top: canvasFormat.paddingTop }} />
+            )}
+            {footerHeight > 0 && (
+                <Band slots={footerSlots} height={footerHeight} style={{ ...horizontal, bottom: canvasFormat.paddingBottom }} />
+            )}
+        </>
+    )
+}
+
+interface CardWatermarkProps {
+    watermark: WatermarkDecoration
+    canvasFormat: CanvasFormat
+}
+
+// Upper bound on repeated labels in the tiled pattern
+const MAX_TILES = 240
+
+export function CardWatermark({ watermark, canvasFormat }: CardWatermarkProps) {
+    const text = watermark.text.trim()
+    if (!watermark.enabled || !text) return null
+
+    const labelStyle: React.CSSProperties = {
+        fontSize: watermark.fontSize,
+        color: watermark.color,
+        transform: `rotate(${watermark.rotation}deg)`,
+    }
+
+    if (watermark.position !== 'tiled') {
+        return (
+            <div className={`card-watermark card-watermark-${watermark.position}`} style={{ opacity: watermark.opacity }}>
+                <span style={labelStyle}>{text}</span>
+            </div>
+        )
+    }
+
+    // Cover the canvas diagonal so rotated rows leave no bare corners
+    const tileWidth = text.length * watermark.fontSize + watermark.fontSize * 3
+    const tileHeight = watermark.fontSize * 5
+    const span = Math.hypot(canvasFormat.width, canvasFormat.height)
+    const columns = Math.ceil(span / tileWidth)
+    const rows = Math.ceil(span / tileHeight)
+    const count = Math.min(MAX_TILES, columns * rows)
+
+    return (
+        <div className="card-watermark card-watermark-tiled" style={{ opacity: watermark.opacity }}>
+            <div
+                className="card-watermark-grid"
+                style={{
+                    width: span,
+                    height: span,
+                    gridTemplateColumns: `repeat(${columns}, ${tileWidth}px)`,
+                    gridAutoRows: `${tileHeight}px`,
+                    transform: `translate(-50%, -50%) rotate(${watermark.rotation}deg)`,
+                }}
+            >
+                {Array.from({ length: count }, (_, i) => (
+                    <span key={i} style={{ fontSize: watermark.fontSize, color: watermark.color }}>{text}</span>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,70 @@
+import type { ReactNode } from 'react'
+import type { CanvasFormat } from '../utils/canvasFormat'
+import { getThemeStyle, getThemeLayers, type Theme } from '../utils/theme'
+
+interface CardFrameProps {
+    exportId: string
+    theme: Theme
+    canvasFormat: CanvasFormat
+    forExport?: boolean
+    displayScale?: number
+    className?: string
+    children: ReactNode
+}
+
+/**
+ * The card canvas shared by content and cover cards: full-size for export
+ * (`card-export-{exportId}`), or scaled down for the on-screen preview.
+ */
+export function CardFrame({ exportId, theme, canvasFormat, forExport = false, displayScale, className = '', children }: CardFrameProps) {
+    const canvasStyle: React.CSSProperties = {
+        width: `${canvasFormat.width}px`,
+        height: `${canvasFormat.height}px`,
+        padding: `${canvasFormat.paddingTop}px ${canvasFormat.paddingX}px ${canvasFormat.paddingBottom}px`,
+    }
+
+    const themeStyle = getThemeStyle(theme)
+    const layers = getThemeLayers(theme).map((style, i) => (
+        <div key={i} className="card-theme-layer" style={style} />
+    ))
+
+    if (forExport) {
+        return (
+            <div
+                id={`card-export-${exportId}`}
+                className={`card-preview ${className}`}
+                style={{
+                    ...themeStyle,
+                    ...canvasStyle,
+                }}
+            >
+                {layers}
+                {children}
+            </div>
+        )
+    }
+
+    const scale = displayScale ?? 0.3
+    return (
+        <div
+            className="relative overflow-hidden rounded-lg shadow-lg bg-white"
+            style={{ width: canvasFormat.width * scale, height: canvasFormat.height * scale }}
+        >
+            <div
+                className={`card-preview ${className}`}
+                style={{
+                    ...themeStyle,
+                    transform: `scale(${scale})`,
+                    transformOrigin: 'top left',
+                    ...canvasStyle,
+                    position: 'absolute',
+                    top: 0,
+                    left: 0
+                }}
+            >
+                {layers}
+                {children}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,69 @@
+import { parseLayoutContent, type CardLayout } from '../utils/cardLayouts'
+import { CardBlocks, CardInlines } from './CardBlocks'
+
+interface CardLayoutBodyProps {
+    // Card text without its directive
+    body: string
+    layout: Exclude<CardLayout, 'flow'>
+}
+
+/**
+ * Content of a templated card, styled by `.card-layout-*` in index.css.
+ */
+export function CardLayoutBody({ body, layout }: CardLayoutBodyProps) {
+    const content = parseLayoutContent(body, layout)
+
+    if (content.layout === 'quote') {
+        return (
+            <figure className="layout-quote">
+                <div className="layout-quote-mark" aria-hidden="true">“</div>
+                <blockquote className="layout-quote-text">
+                    <CardBlocks blocks={content.blocks} />
+                </blockquote>
+                {content.attribution && (
+                    <figcaption className="layout-quote-attribution">—— <CardInlines inlines={content.attribution} /></figcaption>
+                )}
+            </figure>
+        )
+    }
+
+    if (content.layout === 'checklist') {
+        return (
+            <div className="layout-checklist">
+                {content.title && <h2><CardInlines inlines={content.title} /></h2>}
+                <ol>
+                    {content.items.map((item, index) => (
+                        <li key={index} className={item.checked ? 'is-checked' : undefined}>
+                            <span className="layout-checklist-number" aria-hidden="true">
+                                {item.checked === undefined
+                                    ? String(index + 1).padStart(2, '0')
+                                    : <span className="layout-checklist-box">{item.checked ? '✓' : ''}</span>}
+                            </span>
+                            <div className="layout-checklist-text">
+                                <p><CardInlines inlines={item.inlines} /></p>
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        )
+    }
+
+    if (content.layout === 'highlight') {
+        return (
+            <div className="layout-highlight">
+                <div className="layout-highlight-label">{content.label ? <CardInlines inlines={content.label} /> : '划重点'}</div>
+                <div className="layout-highlight-sentence">
+                    <p><mark><CardInlines inlines={content.sentence} /></mark></p>
+                </div>
+                {content.note && (
+                    <div className="layout-highlight-note">
+                        <CardBlocks blocks={content.note} />
+                    </div>
+                )}
+            </div>
+        )
+    }
+
+    return <CardBlocks blocks={content.blocks} />
+}
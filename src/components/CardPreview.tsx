@@ -1,9 +1,15 @@
 import { useState, useRef, useCallback } from 'react'
 import type { Card } from '../types'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import remarkBreaks from 'remark-breaks'
-import rehypeRaw from 'rehype-raw'
+import { DEFAULT_CANVAS_FORMAT, getContentBox, type CanvasFormat } from '../utils/canvasFormat'
+import { CardFrame } from './CardFrame'
+import { CardBlocks } from './CardBlocks'
+import { CardLayoutBody } from './CardLayoutBody'
+import { CardDecorationBands, CardWatermark, type CardPage } from './CardDecorationLayer'
+import { applyDecorations, type CardDecorations } from '../utils/cardDecorations'
+import { DEFAULT_THEME, type Theme } from '../utils/theme'
+import { effectiveTheme } from '../utils/cardOverrides'
+import { parseCardDocument } from '../utils/cardDocument'
+import { resolveCardLayout } from '../utils/cardLayouts'
 
 interface Typography {
     fontSize: number
@@ -12,60 +18,35 @@ interface Typography {
     letterSpacing?: number
 }
 
-export type BackgroundStyle = 'classic' | 'grid' | 'paper' | 'grain'
 
-interface CardPreviewProps {
+export interface CardPreviewProps {
     card: Card
     images?: Map<string, string>
     imageSizes?: Map<string, number>
+    imageMeta?: Map<string, { width: number; height: number }>
     onImageResize?: (id: string, widthPercent: number) => void
     typography?: Typography
-    backgroundStyle?: BackgroundStyle
+    theme?: Theme
+    canvasFormat?: CanvasFormat
+    decorations?: CardDecorations
+    // Position in the deck, for the page indicator
+    page?: CardPage
     forExport?: boolean
     displayScale?: number
 }
 
-function escapeAngleBrackets(text: string): string {
-    return text.replace(/</g, '&lt;').replace(/>/g, '&gt;')
-}
-
-function preprocessCustomMarkup(text: string): string {
-    const safe = escapeAngleBrackets(text)
-    const withHighlight = safe.replace(/==([\s\S]+?)==/g, '<mark>$1</mark>')
-    return withHighlight.replace(/__([\s\S]+?)__/g, '<u>$1</u>')
-}
-
-function parseContentSegments(text: string): Array<{ type: 'text' | 'image'; content: string }> {
-    const segments: Array<{ type: 'text' | 'image'; content: string }> = []
-    const regex = /\[IMG:([a-zA-Z0-9_-]+)\]/g
-    let lastIndex = 0
-    let match
-
-    while ((match = regex.exec(text)) !== null) {
-        if (match.index > lastIndex) {
-            segments.push({ type: 'text', content: text.slice(lastIndex, match.index) })
-        }
-        segments.push({ type: 'image', content: match[1] })
-        lastIndex = regex.lastIndex
-    }
-
-    if (lastIndex < text.length) {
-        segments.push({ type: 'text', content: text.slice(lastIndex) })
-    }
-
-    return segments
-}
-
 interface ResizableImageProps {
     src: string
     imageId: string
     widthPercent: number
+    aspectRatio?: number
+    contentWidth: number
     onResize?: (id: string, widthPercent: number) => void
     forExport?: boolean
     displayScale?: number
 }
 
-function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displayScale }: ResizableImageProps) {
+function ResizableImage({ src, imageId, widthPercent, aspectRatio, contentWidth, onResize, forExport, displayScale }: ResizableImageProps) {
     const [isResizing, setIsResizing] = useState(false)
     const [isHovered, setIsHovered] = useState(false)
     const startXRef = useRef(0)
@@ -81,9 +62,8 @@ function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displ
         const handleMouseMove = (moveEvent: MouseEvent) => {
             const scale = displayScale ?? 1
             if (scale <= 0) return
-            const containerWidth = 880 // Card content width (1080 - 200 padding)
             const deltaX = (moveEvent.clientX - startXRef.current) / scale
-            const deltaPercent = (deltaX / containerWidth) * 100
+            const deltaPercent = (deltaX / contentWidth) * 100
             const newWidth = Math.min(100, Math.max(20, startWidthRef.current + deltaPercent))
             onResize?.(imageId, newWidth)
         }
@@ -96,7 +76,7 @@ function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displ
 
         document.addEventListener('mousemove', handleMouseMove)
         document.addEventListener('mouseup', handleMouseUp)
-    }, [widthPercent, onResize, imageId, displayScale])
+    }, [widthPercent, onResize, imageId, displayScale, contentWidth])
 
     // Export mode: simple image with percentage width
     if (forExport) {
@@ -107,6 +87,7 @@ function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displ
                 style={{
                     width: `${widthPercent}%`,
                     height: 'auto',
+                    aspectRatio,
                     display: 'block',
                     margin: '0.8em auto',
                     borderRadius: '8px',
@@ -141,6 +122,7 @@ function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displ
                     style={{
                         width: '100%',
                         height: 'auto',
+                        aspectRatio,
                         display: 'block',
                         borderRadius: '8px',
                         userSelect: 'none',
@@ -184,118 +166,71 @@ function ResizableImage({ src, imageId, widthPercent, onResize, forExport, displ
     )
 }
 
-export function CardPreview({ card, images, imageSizes, onImageResize, typography, backgroundStyle = 'classic', forExport = false, displayScale }: CardPreviewProps) {
-    const fontSize = typography?.fontSize ?? 32
-    const lineHeight = typography?.lineHeight ?? 1.6
-    const paragraphSpacing = typography?.paragraphSpacing ?? 1.2
-    const letterSpacing = typography?.letterSpacing ?? 0.05
+export function CardPreview({ card, images, imageSizes, imageMeta, onImageResize, typography, theme: projectTheme = DEFAULT_THEME, canvasFormat = DEFAULT_CANVAS_FORMAT, decorations, page, forExport = false, displayScale }: CardPreviewProps) {
+    // A `@card` directive overrides the project look for this card
+    const { overrides, body, blocks } = parseCardDocument(card.text)
+    const fontSize = overrides?.fontSize ?? typography?.fontSize ?? 32
+    const lineHeight = overrides?.lineHeight ?? typography?.lineHeight ?? 1.6
+    const paragraphSpacing = overrides?.paragraphSpacing ?? typography?.paragraphSpacing ?? 1.2
+    const letterSpacing = overrides?.letterSpacing ?? typography?.letterSpacing ?? 0.05
+    const theme = effectiveTheme(projectTheme, overrides)
+    const layout = resolveCardLayout(body, overrides?.layout)
 
-    const segments = parseContentSegments(card.text)
+    // Header/footer bands shrink the content box the text is laid out in
+    const layoutFormat = decorations ? applyDecorations(canvasFormat, decorations) : canvasFormat
+    const contentWidth = getContentBox(layoutFormat).width
 
     const textStyles: React.CSSProperties & { ['--paragraph-spacing']?: string } = {
         fontSize: `${fontSize}px`,
         lineHeight: lineHeight,
         letterSpacing: `${letterSpacing}em`,
         ['--paragraph-spacing']: `${paragraphSpacing}em`,
+        textAlign: overrides?.align,
     }
 
-    const getExportBackgroundStyle = (): React.CSSProperties => {
-        switch (backgroundStyle) {
-            case 'grid':
-                return {
-                    background: '#F6F6F6',
-                    backgroundImage: `
-                        linear-gradient(rgba(0, 0, 0, 0.04) 1px, transparent 1px),
-                        linear-gradient(90deg, rgba(0, 0, 0, 0.04) 1px, transparent 1px)
-                    `,
-                    backgroundSize: '28px 28px'
-                }
-            case 'paper':
-                return {
-                    background: '#f5f4f2'
-                }
-            case 'grain':
-                return {
-                    background: '#f8f9fc'
-                }
-            default:
-                return {
-                    background: 'linear-gradient(180deg, #fdfcfa 0%, #f9f7f4 100%)'
-                }
-        }
+    const renderImage = (id: string) => {
+        const base64 = images?.get(id)
+        if (!base64) return <span>[IMG:{id}]</span>
+        const widthPercent = imageSizes?.get(id) ?? 100
+        // Known natural size reserves the image's height before it decodes
+        const meta = imageMeta?.get(id)
+        return (
+            <ResizableImage
+                src={base64}
+                imageId={id}
+                widthPercent={widthPercent}
+                aspectRatio={meta ? meta.width / Math.max(1, meta.height) : undefined}
+                contentWidth={contentWidth}
+                onResize={onImageResize}
+                forExport={forExport}
+                displayScale={displayScale}
+            />
+        )
     }
 
     const renderContent = () => (
         <div className="card-text" style={textStyles}>
-            {segments.map((segment, index) => {
-                if (segment.type === 'image') {
-                    const base64 = images?.get(segment.content)
-                    if (base64) {
-                        const widthPercent = imageSizes?.get(segment.content) ?? 100
-                        return (
-                            <ResizableImage
-                                key={index}
-                                src={base64}
-                                imageId={segment.content}
-                                widthPercent={widthPercent}
-                                onResize={onImageResize}
-                                forExport={forExport}
-                                displayScale={displayScale}
-                            />
-                        )
-                    }
-                    return <span key={index}>[IMG:{segment.content}]</span>
-                }
-                const textWithBreaks = preprocessCustomMarkup(segment.content)
-                return (
-                    <ReactMarkdown
-                        key={index}
-                        remarkPlugins={[remarkGfm, remarkBreaks]}
-                        rehypePlugins={[rehypeRaw]}
-                    >
-                        {textWithBreaks}
-                    </ReactMarkdown>
-                )
-            })}
+            <CardBlocks blocks={blocks} renderImage={renderImage} />
         </div>
     )
 
-    if (forExport) {
-        return (
-            <div
-                id={`card-export-${card.id}`}
-                className={`card-preview bg-${backgroundStyle}`}
-                style={{
-                    ...getExportBackgroundStyle(),
-                    width: '1080px',
-                    height: '1440px',
-                }}
-            >
-                {renderContent()}
-            </div>
-        )
-    }
+    // Templates lay out text only; the flow renders images too
+    const content = layout === 'flow'
+        ? renderContent()
+        : <div className="card-text" style={textStyles}><CardLayoutBody body={body} layout={layout} /></div>
 
-    const scale = displayScale ?? 0.3
     return (
-        <div
-            className="relative overflow-hidden rounded-lg shadow-lg bg-white"
-            style={{ width: 1080 * scale, height: 1440 * scale }}
+        <CardFrame
+            exportId={card.id}
+            theme={theme}
+            canvasFormat={layoutFormat}
+            forExport={forExport}
+            displayScale={displayScale}
+            className={`card-layout-${layout}`}
         >
-            <div
-                className={`card-preview bg-${backgroundStyle}`}
-                style={{
-                    transform: `scale(${scale})`,
-                    transformOrigin: 'top left',
-                    width: '1080px',
-                    height: '1440px',
-                    position: 'absolute',
-                    top: 0,
-                    left: 0
-                }}
-            >
-                {renderContent()}
-            </div>
-        </div>
+            {decorations && <CardDecorationBands decorations={decorations} canvasFormat={canvasFormat} page={page} />}
+            {content}
+            {decorations && <CardWatermark watermark={decorations.watermark} canvasFormat={canvasFormat} />}
+        </CardFrame>
     )
 }
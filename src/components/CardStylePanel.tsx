@@ -0,0 +1,172 @@
+import { useState, useRef, useEffect } from 'react'
+import type { Typography } from '../utils/splitToCards'
+import { BUILT_IN_THEMES } from '../utils/theme'
+import { CARD_ALIGN_LABELS, TYPOGRAPHY_RANGES, type CardAlign, type CardOverrides } from '../utils/cardOverrides'
+import { CARD_LAYOUT_LABELS, type CardLayout } from '../utils/cardLayouts'
+
+interface CardStylePanelProps {
+    overrides: CardOverrides | null
+    // Template detected from the content, used when the card doesn't pick one
+    detectedLayout: CardLayout
+    // Project typography, shown for the values the card doesn't override
+    typography: Typography
+    onChange: (overrides: CardOverrides) => void
+}
+
+const TYPOGRAPHY_FIELDS: { key: keyof Typography; label: string; digits: number }[] = [
+    { key: 'fontSize', label: '字号', digits: 0 },
+    { key: 'lineHeight', label: '行高', digits: 1 },
+    { key: 'paragraphSpacing', label: '段距', digits: 1 },
+    { key: 'letterSpacing', label: '字距', digits: 2 },
+]
+
+/**
+ * Overrides for the selected card; edits rewrite the card's `@card` directive.
+ */
+export function CardStylePanel({ overrides, detectedLayout, typography, onChange }: CardStylePanelProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const current = overrides ?? {}
+    const count = Object.keys(current).length
+
+    // Close the panel when clicking outside
+    useEffect(() => {
+        if (!isOpen) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isOpen])
+
+    const step = (key: keyof Typography, direction: 1 | -1, digits: number) => {
+        const { min, max, step } = TYPOGRAPHY_RANGES[key]
+        const value = current[key] ?? typography[key]
+        onChange({ ...current, [key]: Math.min(max, Math.max(min, +(value + direction * step).toFixed(digits))) })
+    }
+
+    const clear = (key: keyof CardOverrides) => {
+        const next = { ...current }
+        delete next[key]
+        onChange(next)
+    }
+
+    const stepperClass = 'w-6 h-6 rounded bg-stone-100 hover:bg-stone-200 text-stone-600 flex items-center justify-center'
+    const chipClass = (active: boolean) => `px-2 py-1 rounded border text-xs transition-colors ${active
+        ? 'border-stone-800 bg-stone-800 text-white'
+        : 'border-stone-200 text-stone-600 hover:bg-stone-50'}`
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className={`px-2 py-1 text-xs rounded-lg border transition-colors ${count > 0
+                    ? 'border-amber-300 bg-amber-50 text-amber-700'
+                    : 'border-stone-200 text-stone-600 hover:bg-stone-50'}`}
+                title="只对这张卡片生效的排版、对齐和背景"
+            >
+                本卡样式{count > 0 ? ` · ${count}` : ''}
+            </button>
+
+            {isOpen && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 bg-white rounded-lg border border-stone-200 shadow-lg z-50 p-3 space-y-3 text-xs text-stone-600">
+                    {TYPOGRAPHY_FIELDS.map(({ key, label, digits }) => {
+                        const isSet = current[key] !== undefined
+                        const value = current[key] ?? typography[key]
+                        return (
+                            <div key={key} className="flex items-center gap-2">
+                                <span className="w-8 text-stone-500">{label}</span>
+                                <button onClick={() => step(key, -1, digits)} className={stepperClass}>−</button>
+                                <span className={`w-10 text-center tabular-nums ${isSet ? 'font-medium text-stone-800' : 'text-stone-400'}`}>
+                                    {value.toFixed(digits)}
+                                </span>
+                                <button onClick={() => step(key, 1, digits)} className={stepperClass}>+</button>
+                                {isSet && (
+                                    <button onClick={() => clear(key)} className="ml-auto text-stone-400 hover:text-stone-600">跟随全局</button>
+                                )}
+                            </div>
+                        )
+                    })}
+
+                    <div className="space-y-1.5">
+                        <span className="text-stone-500">版式</span>
+                        <div className="flex flex-wrap gap-1">
+                            <button
+                                onClick={() => clear('layout')}
+                                className={chipClass(current.layout === undefined)}
+                                title="根据内容自动选择"
+                            >
+                                自动（{CARD_LAYOUT_LABELS[detectedLayout]}）
+                            </button>
+                            {(Object.keys(CARD_LAYOUT_LABELS) as CardLayout[]).map(layout => (
+                                <button
+                                    key={layout}
+                                    onClick={() => onChange({ ...current, layout })}
+                                    className={chipClass(current.layout === layout)}
+                                >
+                                    {CARD_LAYOUT_LABELS[layout]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <span className="text-stone-500">对齐</span>
+                        <div className="flex flex-wrap gap-1">
+                            {(Object.keys(CARD_ALIGN_LABELS) as CardAlign[]).map(align => (
+                                <button
+                                    key={align}
+                                    onClick={() => current.align === align ? clear('align') : onChange({ ...current, align })}
+                                    className={chipClass(current.align === align)}
+                                >
+                                    {CARD_ALIGN_LABELS[align]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <span className="text-stone-500">背景</span>
+                        <div className="flex flex-wrap gap-1">
+                            {BUILT_IN_THEMES.map(theme => (
+                                <button
+                                    key={theme.id}
+                                    onClick={() => current.background === theme.id ? clear('background') : onChange({ ...current, background: theme.id })}
+                                    className={chipClass(current.background === theme.id)}
+                                >
+                                    {theme.name}
+                                </button>
+                            ))}
+                            <label
+                                className={`${chipClass(!!current.background?.startsWith('#'))} flex items-center gap-1 cursor-pointer`}
+                                title="纯色背景"
+                            >
+                                <input
+                                    type="color"
+                                    value={current.background?.startsWith('#') ? current.background : '#ffffff'}
+                                    onChange={(e) => onChange({ ...current, background: e.target.value })}
+                                    className="w-4 h-4 p-0 border-0 bg-transparent cursor-pointer"
+                                />
+                                纯色
+                            </label>
+                        </div>
+                    </div>
+
+                    {count > 0 && (
+                        <button
+                            onClick={() => onChange({})}
+                            className="w-full py-1.5 rounded border border-stone-200 text-stone-500 hover:bg-stone-50"
+                        >
+                            清除本卡样式
+                        </button>
+                    )}
+                    <p className="text-[10px] text-stone-400 leading-relaxed">
+                        也可以在卡片第一行写 <code>@card font-size=44 align=center background=ink layout=quote</code>
+                    </p>
+                </div>
+            )}
+        </div>
+    )
+}
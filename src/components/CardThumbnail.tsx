@@ -1,5 +1,10 @@
 import { useState, useRef, useEffect, useCallback } from 'react'
 import type { Card } from '../types'
+import { parseCardDocument, blockText } from '../utils/cardDocument'
+import { CARD_LAYOUT_LABELS, resolveCardLayout } from '../utils/cardLayouts'
+
+// dataTransfer type for cards dragged within the list
+const CARD_DRAG_TYPE = 'application/x-wx2xhs-card'
 
 interface CardThumbnailProps {
     card: Card
@@ -7,12 +12,38 @@ interface CardThumbnailProps {
     isSelected: boolean
     onClick: () => void
     onTextChange?: (cardId: string, newText: string) => void
+    overflowPx?: number
+    onSplitOverflow?: (cardId: string) => void
+    // Drop `draggedId` before or after this card
+    onReorder?: (draggedId: string, targetId: string, placeAfter: boolean) => void
+    // Merge with the next card; omitted for the last card
+    onMergeNext?: (cardId: string) => void
+    // Split into two cards at an offset in the card text
+    onSplitAt?: (cardId: string, offset: number) => void
+    isChecked?: boolean
+    // shiftKey extends the selection from the last checked card
+    onCheckedChange?: (cardId: string, shiftKey: boolean) => void
 }
 
-export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }: CardThumbnailProps) {
+export function CardThumbnail({ card, index, isSelected, onClick, onTextChange, overflowPx, onSplitOverflow, onReorder, onMergeNext, onSplitAt, isChecked = false, onCheckedChange }: CardThumbnailProps) {
     const [isExpanded, setIsExpanded] = useState(false)
     const contentRef = useRef<HTMLDivElement>(null)
     const [contentHeight, setContentHeight] = useState<number | null>(null)
+    const [dropPosition, setDropPosition] = useState<'before' | 'after' | null>(null)
+    const [isSplitMenuOpen, setIsSplitMenuOpen] = useState(false)
+    const splitMenuRef = useRef<HTMLDivElement>(null)
+
+    // Close the split menu when clicking outside
+    useEffect(() => {
+        if (!isSplitMenuOpen) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (splitMenuRef.current && !splitMenuRef.current.contains(e.target as Node)) {
+                setIsSplitMenuOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isSplitMenuOpen])
 
     // Measure content height when expanded
     useEffect(() => {
@@ -46,10 +77,33 @@ export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }
     }, [card.id, onTextChange])
 
     const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-        // Allow all keyboard shortcuts without closing
-        e.stopPropagation()
+        // Enter and Escape edit the card without reaching the list; other keys,
+        // undo/redo included, bubble up to the app-level handlers
+        if (e.key === 'Enter' || e.key === 'Escape') e.stopPropagation()
     }, [])
 
+    const handleDragStart = useCallback((e: React.DragEvent) => {
+        e.dataTransfer.setData(CARD_DRAG_TYPE, card.id)
+        e.dataTransfer.effectAllowed = 'move'
+    }, [card.id])
+
+    const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+        if (!e.dataTransfer.types.includes(CARD_DRAG_TYPE)) return
+        e.preventDefault()
+        e.dataTransfer.dropEffect = 'move'
+        const rect = e.currentTarget.getBoundingClientRect()
+        setDropPosition(e.clientY > rect.top + rect.height / 2 ? 'after' : 'before')
+    }, [])
+
+    const handleDrop = useCallback((e: React.DragEvent) => {
+        const draggedId = e.dataTransfer.getData(CARD_DRAG_TYPE)
+        const placeAfter = dropPosition === 'after'
+        setDropPosition(null)
+        if (!draggedId || !onReorder) return
+        e.preventDefault()
+        onReorder(draggedId, card.id, placeAfter)
+    }, [card.id, dropPosition, onReorder])
+
     const handleClick = useCallback((e: React.MouseEvent) => {
         if (isExpanded) {
             // When expanded, clicking content area shouldn't close or trigger selection
@@ -59,10 +113,24 @@ export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }
         }
     }, [isExpanded, onClick])
 
+    const { overrides, body, blocks } = parseCardDocument(card.text)
+    const layout = resolveCardLayout(body, overrides?.layout)
+    // What the card reads as, without markup
+    const plainText = blocks.map(block => (block.kind === 'image' ? '[图片]' : blockText(block))).join('\n')
+    const charCount = blocks.map(blockText).join('').replace(/\s/g, '').length
+    // Every block after the first starts a possible split
+    const paragraphStarts = onSplitAt ? blocks.slice(1).map(block => block.start) : []
+    const actionClass = 'px-1.5 py-0.5 rounded text-[10px] text-stone-500 hover:bg-stone-200 hover:text-stone-700 transition-colors'
+
     return (
         <div
             onClick={handleClick}
-            className={`
+            draggable={!!onReorder && !isExpanded}
+            onDragStart={onReorder ? handleDragStart : undefined}
+            onDragOver={onReorder ? handleDragOver : undefined}
+            onDragLeave={() => setDropPosition(null)}
+            onDrop={onReorder ? handleDrop : undefined}
+            className={`group
                 relative rounded-lg transition-all duration-300 ease-out
                 border-2
                 ${isSelected
@@ -72,12 +140,100 @@ export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }
                 ${isExpanded ? '' : 'cursor-pointer'}
             `}
         >
+            {/* Drop indicator */}
+            {dropPosition && (
+                <div className={`absolute left-0 right-0 h-0.5 rounded bg-stone-800 pointer-events-none ${dropPosition === 'before' ? '-top-1.5' : '-bottom-1.5'}`} />
+            )}
+
             {/* Header */}
             <div className="flex items-center gap-2 px-3 pt-3 pb-2">
+                {onCheckedChange && (
+                    <input
+                        type="checkbox"
+                        checked={isChecked}
+                        onChange={() => {}}
+                        onClick={(e) => { e.stopPropagation(); onCheckedChange(card.id, e.shiftKey) }}
+                        className="w-3.5 h-3.5 rounded border-stone-300 cursor-pointer"
+                        title="选择（按住 Shift 连续选择）"
+                    />
+                )}
                 <span className="text-xs font-medium text-stone-500">#{index + 1}</span>
                 <span className="text-xs text-stone-400">
-                    {card.text.replace(/\s/g, '').length} 字
+                    {charCount} 字
                 </span>
+                {overrides && (
+                    <span className="px-1.5 py-0.5 rounded bg-amber-50 text-[10px] text-amber-700 border border-amber-200" title="这张卡片有单独的样式">
+                        样式
+                    </span>
+                )}
+                {layout !== 'flow' && (
+                    <span className="px-1.5 py-0.5 rounded bg-stone-100 text-[10px] text-stone-600 border border-stone-200" title="版式模板">
+                        {CARD_LAYOUT_LABELS[layout]}
+                    </span>
+                )}
+                {overflowPx !== undefined && (
+                    <>
+                        <span
+                            className="px-1.5 py-0.5 rounded bg-red-50 text-[10px] text-red-600 border border-red-200"
+                            title={`内容超出画布 ${overflowPx}px，导出时会被裁掉`}
+                        >
+                            溢出 {overflowPx}px
+                        </span>
+                        {onSplitOverflow && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onSplitOverflow(card.id) }}
+                                className="px-1.5 py-0.5 rounded text-[10px] text-red-600 hover:bg-red-50 transition-colors"
+                                title="在最佳位置拆分为两张卡片"
+                            >
+                                拆分
+                            </button>
+                        )}
+                    </>
+                )}
+                <div className="ml-auto flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    {paragraphStarts.length > 0 && (
+                        <div ref={splitMenuRef} className="relative">
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setIsSplitMenuOpen(o => !o) }}
+                                className={actionClass}
+                                title="在所选段落前拆分为两张卡片"
+                            >
+                                分段拆分
+                            </button>
+                            {isSplitMenuOpen && (
+                                <div className="absolute right-0 top-full mt-1 w-56 bg-white rounded-lg border border-stone-200 shadow-lg z-50 py-1">
+                                    <div className="px-3 py-1 text-[10px] text-stone-400">从这一段开始拆到新卡片</div>
+                                    <ul className="max-h-60 overflow-y-auto">
+                                        {paragraphStarts.map((offset, i) => (
+                                            <li key={offset}>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation()
+                                                        setIsSplitMenuOpen(false)
+                                                        onSplitAt?.(card.id, offset)
+                                                    }}
+                                                    className="w-full px-3 py-1.5 text-left text-xs text-stone-600 hover:bg-stone-50 truncate"
+                                                >
+                                                    <span className="text-stone-400 mr-1.5">¶{i + 2}</span>
+                                                    {card.text.slice(offset, offset + 40).split('\n')[0]}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {onMergeNext && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onMergeNext(card.id) }}
+                            className={actionClass}
+                            title="与下一张卡片合并"
+                        >
+                            合并下一张
+                        </button>
+                    )}
+                </div>
             </div>
 
             {/* Content Area */}
@@ -90,6 +246,7 @@ export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }
                 <div
                     ref={contentRef}
                     contentEditable={isExpanded}
+                    data-app-history
                     suppressContentEditableWarning
                     onInput={handleInput}
                     onKeyDown={handleKeyDown}
@@ -101,7 +258,7 @@ export function CardThumbnail({ card, index, isSelected, onClick, onTextChange }
                         ${isExpanded ? 'cursor-text' : 'line-clamp-2'}
                     `}
                 >
-                    {isExpanded ? card.text : getPreviewText(card.text)}
+                    {isExpanded ? card.text : getPreviewText(plainText)}
                 </div>
             </div>
 
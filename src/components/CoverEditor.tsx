@@ -0,0 +1,138 @@
+import type { ChangeEvent } from 'react'
+import { COVER_LAYOUTS, COVER_LAYOUT_LABELS, type CoverLayout, type CoverSettings } from '../utils/coverCard'
+
+interface CoverEditorProps {
+    cover: CoverSettings
+    images: Map<string, string>
+    isSelected: boolean
+    onClick: () => void
+    onChange: (cover: CoverSettings) => void
+    onEnable: () => void
+    isChecked?: boolean
+    onCheckedChange?: (shiftKey: boolean) => void
+}
+
+type TextField = 'title' | 'subtitle' | 'author' | 'seriesTag'
+
+const TEXT_FIELDS: { field: TextField; label: string; placeholder: string; multiline?: boolean }[] = [
+    { field: 'title', label: '标题', placeholder: '大标题（回车换行）', multiline: true },
+    { field: 'subtitle', label: '副标题', placeholder: '一句话说明' },
+    { field: 'author', label: '作者', placeholder: '@账号名' },
+    { field: 'seriesTag', label: '系列', placeholder: '如：读书笔记 No.3' },
+]
+
+export function CoverEditor({ cover, images, isSelected, onClick, onChange, onEnable, isChecked = false, onCheckedChange }: CoverEditorProps) {
+    if (!cover.enabled) {
+        return (
+            <button
+                onClick={onEnable}
+                className="w-full py-2.5 rounded-lg border-2 border-dashed border-stone-200 text-xs text-stone-400
+                           hover:border-stone-400 hover:text-stone-600 transition-colors"
+            >
+                + 添加封面
+            </button>
+        )
+    }
+
+    const update = (patch: Partial<CoverSettings>) => onChange({ ...cover, ...patch })
+    const handleText = (field: TextField) => (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        update({ [field]: e.target.value })
+    }
+    const inputClass = 'flex-1 min-w-0 px-2 py-1 text-xs text-stone-700 bg-white border border-stone-200 rounded outline-none focus:border-stone-400'
+
+    return (
+        <div
+            onClick={onClick}
+            className={`rounded-lg border-2 transition-all cursor-pointer
+                ${isSelected
+                    ? 'border-stone-800 bg-stone-100 shadow-md'
+                    : 'border-transparent bg-white hover:border-stone-300 hover:shadow-sm'
+                }`}
+        >
+            {/* Header */}
+            <div className="flex items-center gap-2 px-3 pt-3 pb-2">
+                {onCheckedChange && (
+                    <input
+                        type="checkbox"
+                        checked={isChecked}
+                        onChange={() => {}}
+                        onClick={(e) => { e.stopPropagation(); onCheckedChange(e.shiftKey) }}
+                        className="w-3.5 h-3.5 rounded border-stone-300 cursor-pointer"
+                        title="选择（按住 Shift 连续选择）"
+                    />
+                )}
+                <span className="text-xs font-medium text-stone-500">#0</span>
+                <span className="text-xs text-stone-400">封面</span>
+                <select
+                    value={cover.layout}
+                    onChange={(e) => update({ layout: e.target.value as CoverLayout })}
+                    onClick={(e) => e.stopPropagation()}
+                    className="ml-auto text-xs text-stone-600 bg-white border border-stone-200 rounded px-1 py-0.5 cursor-pointer"
+                    title="封面版式"
+                >
+                    {COVER_LAYOUTS.map(layout => (
+                        <option key={layout} value={layout}>{COVER_LAYOUT_LABELS[layout]}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={(e) => { e.stopPropagation(); update({ enabled: false }) }}
+                    className="w-5 h-5 rounded text-stone-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                    title="移除封面（内容会保留）"
+                >
+                    ×
+                </button>
+            </div>
+
+            {/* Fields */}
+            <div className="px-3 pb-3 space-y-1.5" onClick={(e) => { e.stopPropagation(); onClick() }}>
+                {TEXT_FIELDS.map(({ field, label, placeholder, multiline }) => (
+                    <label key={field} className="flex items-start gap-2">
+                        <span className="w-10 shrink-0 pt-1 text-xs text-stone-500">{label}</span>
+                        {multiline ? (
+                            <textarea
+                                value={cover[field]}
+                                onChange={handleText(field)}
+                                placeholder={placeholder}
+                                rows={2}
+                                className={`${inputClass} resize-none`}
+                            />
+                        ) : (
+                            <input
+                                value={cover[field]}
+                                onChange={handleText(field)}
+                                placeholder={placeholder}
+                                className={inputClass}
+                            />
+                        )}
+                    </label>
+                ))}
+                <div className="flex items-start gap-2">
+                    <span className="w-10 shrink-0 pt-1 text-xs text-stone-500">配图</span>
+                    {images.size === 0 ? (
+                        <span className="pt-1 text-xs text-stone-400">原文中粘贴图片后可选</span>
+                    ) : (
+                        <div className="flex-1 min-w-0 flex gap-1.5 overflow-x-auto pb-1">
+                            <button
+                                onClick={() => update({ heroImageId: undefined })}
+                                className={`shrink-0 w-10 h-10 rounded border text-[10px] text-stone-400 bg-white
+                                    ${!cover.heroImageId ? 'border-stone-800' : 'border-stone-200 hover:border-stone-400'}`}
+                            >
+                                无
+                            </button>
+                            {Array.from(images.entries()).map(([id, src]) => (
+                                <button
+                                    key={id}
+                                    onClick={() => update({ heroImageId: id })}
+                                    className={`shrink-0 w-10 h-10 rounded border-2 overflow-hidden
+                                        ${cover.heroImageId === id ? 'border-stone-800' : 'border-transparent hover:border-stone-400'}`}
+                                >
+                                    <img src={src} alt="" className="w-full h-full object-cover" />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,58 @@
+import type { CoverSettings } from '../utils/coverCard'
+import { COVER_CARD_ID } from '../utils/coverCard'
+import { DEFAULT_CANVAS_FORMAT, type CanvasFormat } from '../utils/canvasFormat'
+import { CardFrame } from './CardFrame'
+import { CardWatermark } from './CardDecorationLayer'
+import type { CardDecorations } from '../utils/cardDecorations'
+import { DEFAULT_THEME, type Theme } from '../utils/theme'
+
+interface CoverPreviewProps {
+    cover: CoverSettings
+    images?: Map<string, string>
+    theme?: Theme
+    canvasFormat?: CanvasFormat
+    // Only the watermark applies to the cover
+    decorations?: CardDecorations
+    forExport?: boolean
+    displayScale?: number
+}
+
+// Cover type sizes are designed for a 1080px-wide canvas and scale with the width
+const COVER_BASE_FONT_SIZE = 32
+
+export function CoverPreview({
+    cover,
+    images,
+    theme = DEFAULT_THEME,
+    canvasFormat = DEFAULT_CANVAS_FORMAT,
+    decorations,
+    forExport = false,
+    displayScale,
+}: CoverPreviewProps) {
+    const heroSrc = cover.heroImageId ? images?.get(cover.heroImageId) : undefined
+    const fontSize = COVER_BASE_FONT_SIZE * canvasFormat.width / DEFAULT_CANVAS_FORMAT.width
+
+    return (
+        <CardFrame
+            exportId={COVER_CARD_ID}
+            theme={theme}
+            canvasFormat={canvasFormat}
+            forExport={forExport}
+            displayScale={displayScale}
+            className={`cover-card cover-${cover.layout}${heroSrc ? ' has-image' : ''}`}
+        >
+            {heroSrc && (
+                <div className="cover-image">
+                    <img src={heroSrc} alt="" draggable={false} />
+                </div>
+            )}
+            <div className="cover-content" style={{ fontSize: `${fontSize}px` }}>
+                {cover.seriesTag.trim() && <div className="cover-tag">{cover.seriesTag.trim()}</div>}
+                <h1 className="cover-title">{cover.title.trim() || '封面标题'}</h1>
+                {cover.subtitle.trim() && <p className="cover-subtitle">{cover.subtitle.trim()}</p>}
+                {cover.author.trim() && <div className="cover-author">{cover.author.trim()}</div>}
+            </div>
+            {decorations && <CardWatermark watermark={decorations.watermark} canvasFormat={canvasFormat} />}
+        </CardFrame>
+    )
+}
@@ -0,0 +1,293 @@
+import { useState, useRef, useEffect, type ReactNode } from 'react'
+import type {
+    CardDecorations,
+    DecorationAlign,
+    PageNumberPlacement,
+    PageNumberStyle,
+    WatermarkPosition,
+} from '../utils/cardDecorations'
+
+interface DecorationSettingsProps {
+    value: CardDecorations
+    onChange: (decorations: CardDecorations) => void
+}
+
+const AVATAR_SIZE = 160
+
+const ALIGN_OPTIONS: { value: DecorationAlign; label: string }[] = [
+    { value: 'left', label: '左' },
+    { value: 'center', label: '中' },
+    { value: 'right', label: '右' },
+]
+
+const PAGE_STYLE_OPTIONS: { value: PageNumberStyle; label: string }[] = [
+    { value: 'plain', label: '3 / 9' },
+    { value: 'padded', label: '03 / 09' },
+    { value: 'pill', label: '胶囊' },
+]
+
+const WATERMARK_POSITION_OPTIONS: { value: WatermarkPosition; label: string }[] = [
+    { value: 'tiled', label: '平铺' },
+    { value: 'center', label: '居中' },
+    { value: 'top-right', label: '右上' },
+    { value: 'bottom-right', label: '右下' },
+]
+
+// Crop to a square and shrink, so the avatar stays small enough for localStorage
+function readAvatar(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onerror = () => reject(reader.error)
+        reader.onload = () => {
+            const img = new Image()
+            img.onerror = () => reject(new Error('Failed to decode avatar'))
+            img.onload = () => {
+                const side = Math.min(img.naturalWidth, img.naturalHeight)
+                const canvas = document.createElement('canvas')
+                canvas.width = AVATAR_SIZE
+                canvas.height = AVATAR_SIZE
+                const ctx = canvas.getContext('2d')
+                if (!ctx) return reject(new Error('Canvas unavailable'))
+                ctx.drawImage(
+                    img,
+                    (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side,
+                    0, 0, AVATAR_SIZE, AVATAR_SIZE
+                )
+                resolve(canvas.toDataURL('image/png'))
+            }
+            img.src = reader.result as string
+        }
+        reader.readAsDataURL(file)
+    })
+}
+
+function Section({ title, enabled, onToggle, children }: { title: string; enabled: boolean; onToggle: (enabled: boolean) => void; children: ReactNode }) {
+    return (
+        <div className="py-2 border-b border-stone-100 last:border-b-0">
+            <label className="flex items-center gap-2 text-xs font-medium text-stone-700 cursor-pointer select-none">
+                <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} className="w-3.5 h-3.5" />
+                {title}
+            </label>
+            {enabled && <div className="mt-2 space-y-1.5 pl-5">{children}</div>}
+        </div>
+    )
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className="flex items-center gap-2 text-xs">
+            <span className="w-10 shrink-0 text-stone-500">{label}</span>
+            <div className="flex-1 min-w-0 flex items-center gap-1.5">{children}</div>
+        </div>
+    )
+}
+
+function Choice<T extends string>({ value, options, onChange }: { value: T; options: { value: T; label: string }[]; onChange: (value: T) => void }) {
+    return (
+        <div className="flex rounded border border-stone-200 overflow-hidden">
+            {options.map(option => (
+                <button
+                    key={option.value}
+                    onClick={() => onChange(option.value)}
+                    className={`px-2 py-0.5 text-xs ${value === option.value ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-50'}`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+function StyleInputs({ fontSize, color, onChange }: { fontSize: number; color: string; onChange: (patch: { fontSize?: number; color?: string }) => void }) {
+    return (
+        <Row label="样式">
+            <input
+                type="number"
+                min={12}
+                max={80}
+                value={fontSize}
+                onChange={(e) => {
+                    const size = Number.parseInt(e.target.value, 10)
+                    if (Number.isFinite(size)) onChange({ fontSize: Math.min(80, Math.max(12, size)) })
+                }}
+                className="w-14 px-1 py-0.5 border border-stone-200 rounded"
+                title="字号 (px)"
+            />
+            <input
+                type="color"
+                value={color}
+                onChange={(e) => onChange({ color: e.target.value })}
+                className="w-6 h-6 p-0 border border-stone-200 rounded cursor-pointer"
+                title="颜色"
+            />
+        </Row>
+    )
+}
+
+export function DecorationSettings({ value, onChange }: DecorationSettingsProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const avatarInputRef = useRef<HTMLInputElement>(null)
+    const { header, footer, pageNumber, watermark } = value
+
+    // Close the panel when clicking outside
+    useEffect(() => {
+        if (!isOpen) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isOpen])
+
+    const update = <K extends keyof CardDecorations>(key: K, patch: Partial<CardDecorations[K]>) => {
+        onChange({ ...value, [key]: { ...value[key], ...patch } })
+    }
+
+    const handleAvatarFile = async (file: File) => {
+        try {
+            update('header', { avatar: await readAvatar(file) })
+        } catch (error) {
+            console.error('Failed to load avatar:', error)
+            alert('头像读取失败，请换一张图片')
+        }
+    }
+
+    const inputClass = 'flex-1 min-w-0 px-2 py-0.5 border border-stone-200 rounded outline-none focus:border-stone-400'
+    const activeCount = [header, footer, pageNumber, watermark].filter(d => d.enabled).length
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className={`px-2 py-0.5 rounded border text-xs transition-colors ${activeCount > 0
+                    ? 'border-stone-800 text-stone-800 bg-stone-50'
+                    : 'border-stone-200 text-stone-600 bg-white hover:bg-stone-50'
+                    }`}
+                title="页眉、页脚、页码与水印"
+            >
+                页眉页脚{activeCount > 0 && ` · ${activeCount}`}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 w-72 max-h-[70vh] overflow-y-auto bg-white rounded-lg
+                                border border-stone-200 shadow-lg z-50 px-3 py-1">
+                    <Section title="页眉" enabled={header.enabled} onToggle={(enabled) => update('header', { enabled })}>
+                        <Row label="账号">
+                            <input
+                                value={header.name}
+                                onChange={(e) => update('header', { name: e.target.value })}
+                                placeholder="@账号名"
+                                className={inputClass}
+                            />
+                        </Row>
+                        <Row label="头像">
+                            {header.avatar && <img src={header.avatar} alt="" className="w-6 h-6 rounded-full object-cover" />}
+                            <button
+                                onClick={() => avatarInputRef.current?.click()}
+                                className="px-2 py-0.5 border border-stone-200 rounded hover:bg-stone-50"
+                            >
+                                {header.avatar ? '更换' : '上传'}
+                            </button>
+                            {header.avatar && (
+                                <button
+                                    onClick={() => update('header', { avatar: undefined })}
+                                    className="px-1 text-stone-400 hover:text-red-500"
+                                    title="移除头像"
+                                >×</button>
+                            )}
+                            <input
+                                ref={avatarInputRef}
+                                type="file"
+                                accept="image/*"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0]
+                                    e.target.value = ''
+                                    if (file) handleAvatarFile(file)
+                                }}
+                                className="hidden"
+                            />
+                        </Row>
+                        <Row label="位置">
+                            <Choice value={header.align} options={ALIGN_OPTIONS} onChange={(align) => update('header', { align })} />
+                        </Row>
+                        <StyleInputs fontSize={header.fontSize} color={header.color} onChange={(patch) => update('header', patch)} />
+                    </Section>
+
+                    <Section title="页脚" enabled={footer.enabled} onToggle={(enabled) => update('footer', { enabled })}>
+                        <Row label="文字">
+                            <input
+                                value={footer.text}
+                                onChange={(e) => update('footer', { text: e.target.value })}
+                                placeholder="如：关注我，获取更多干货"
+                                className={inputClass}
+                            />
+                        </Row>
+                        <Row label="位置">
+                            <Choice value={footer.align} options={ALIGN_OPTIONS} onChange={(align) => update('footer', { align })} />
+                        </Row>
+                        <StyleInputs fontSize={footer.fontSize} color={footer.color} onChange={(patch) => update('footer', patch)} />
+                    </Section>
+
+                    <Section title="页码" enabled={pageNumber.enabled} onToggle={(enabled) => update('pageNumber', { enabled })}>
+                        <Row label="区域">
+                            <Choice<PageNumberPlacement>
+                                value={pageNumber.placement}
+                                options={[{ value: 'header', label: '顶部' }, { value: 'footer', label: '底部' }]}
+                                onChange={(placement) => update('pageNumber', { placement })}
+                            />
+                        </Row>
+                        <Row label="位置">
+                            <Choice value={pageNumber.align} options={ALIGN_OPTIONS} onChange={(align) => update('pageNumber', { align })} />
+                        </Row>
+                        <Row label="格式">
+                            <Choice value={pageNumber.style} options={PAGE_STYLE_OPTIONS} onChange={(style) => update('pageNumber', { style })} />
+                        </Row>
+                        <StyleInputs fontSize={pageNumber.fontSize} color={pageNumber.color} onChange={(patch) => update('pageNumber', patch)} />
+                    </Section>
+
+                    <Section title="水印" enabled={watermark.enabled} onToggle={(enabled) => update('watermark', { enabled })}>
+                        <Row label="文字">
+                            <input
+                                value={watermark.text}
+                                onChange={(e) => update('watermark', { text: e.target.value })}
+                                placeholder="@账号名"
+                                className={inputClass}
+                            />
+                        </Row>
+                        <Row label="位置">
+                            <Choice value={watermark.position} options={WATERMARK_POSITION_OPTIONS} onChange={(position) => update('watermark', { position })} />
+                        </Row>
+                        <StyleInputs fontSize={watermark.fontSize} color={watermark.color} onChange={(patch) => update('watermark', patch)} />
+                        <Row label="透明">
+                            <input
+                                type="range"
+                                min={0.02}
+                                max={0.5}
+                                step={0.02}
+                                value={watermark.opacity}
+                                onChange={(e) => update('watermark', { opacity: Number(e.target.value) })}
+                                className="flex-1"
+                            />
+                            <span className="w-8 text-right text-stone-500">{Math.round(watermark.opacity * 100)}%</span>
+                        </Row>
+                        <Row label="角度">
+                            <input
+                                type="range"
+                                min={-90}
+                                max={90}
+                                step={5}
+                                value={watermark.rotation}
+                                onChange={(e) => update('watermark', { rotation: Number(e.target.value) })}
+                                className="flex-1"
+                            />
+                            <span className="w-8 text-right text-stone-500">{watermark.rotation}°</span>
+                        </Row>
+                    </Section>
+                </div>
+            )}
+        </div>
+    )
+}
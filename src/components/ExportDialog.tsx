@@ -0,0 +1,198 @@
+import { useState, useEffect, type ReactNode } from 'react'
+import {
+    EXPORT_SCALES,
+    IMAGE_FORMAT_LABELS,
+    PACKAGING_LABELS,
+    RENDERER_LABELS,
+    formatFileName,
+    type ExportPackaging,
+    type ExportRenderer,
+    type ExportSettings,
+    type ImageFormat,
+} from '../utils/exportSettings'
+import type { CanvasFormat } from '../utils/canvasFormat'
+
+interface ExportDialogProps {
+    initialSettings: ExportSettings
+    cardCount: number
+    // Exporting a subset of the deck: the heading says so and the example uses its first index
+    isSelection?: boolean
+    firstIndex?: number
+    canvasFormat: CanvasFormat
+    title: string
+    onConfirm: (settings: ExportSettings) => void
+    onCancel: () => void
+    // Development builds: compare the canvas renderer against the page capture
+    onRenderDiff?: (settings: ExportSettings) => void
+}
+
+const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp']
+const PACKAGINGS: ExportPackaging[] = ['zip', 'files', 'pdf', 'long']
+const RENDERERS: ExportRenderer[] = ['dom', 'canvas']
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className="flex items-start gap-3 text-sm">
+            <span className="w-16 shrink-0 pt-1 text-stone-500">{label}</span>
+            <div className="flex-1 min-w-0">{children}</div>
+        </div>
+    )
+}
+
+function Segmented<T extends string | number>({ value, options, label, onChange }: {
+    value: T
+    options: T[]
+    label: (option: T) => string
+    onChange: (value: T) => void
+}) {
+    return (
+        <div className="inline-flex flex-wrap rounded-lg border border-stone-200 overflow-hidden">
+            {options.map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    className={`px-3 py-1 text-xs ${value === option ? 'bg-stone-800 text-white' : 'bg-white text-stone-600 hover:bg-stone-50'}`}
+                >
+                    {label(option)}
+                </button>
+            ))}
+        </div>
+    )
+}
+
+export function ExportDialog({ initialSettings, cardCount, isSelection = false, firstIndex = 1, canvasFormat, title, onConfirm, onCancel, onRenderDiff }: ExportDialogProps) {
+    const [settings, setSettings] = useState(initialSettings)
+    const update = (patch: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...patch }))
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onCancel()
+        }
+        document.addEventListener('keydown', handleKeyDown)
+        return () => document.removeEventListener('keydown', handleKeyDown)
+    }, [onCancel])
+
+    const usesQuality = settings.format !== 'png' || settings.packaging === 'pdf'
+    const usesFileNames = settings.packaging === 'zip' || settings.packaging === 'files'
+    const date = new Date().toISOString().slice(0, 10)
+    const example = formatFileName(settings.fileNamePattern, { index: firstIndex, title, date })
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/30" onMouseDown={onCancel}>
+            <div
+                className="w-[420px] max-w-[92vw] bg-white rounded-xl shadow-xl p-5 space-y-4"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="text-base font-medium text-stone-800">{isSelection ? '导出所选卡片' : '导出设置'}</div>
+
+                <Row label="打包">
+                    <Segmented
+                        value={settings.packaging}
+                        options={PACKAGINGS}
+                        label={option => PACKAGING_LABELS[option]}
+                        onChange={packaging => update({ packaging })}
+                    />
+                </Row>
+
+                {settings.packaging !== 'pdf' && (
+                    <Row label="格式">
+                        <Segmented
+                            value={settings.format}
+                            options={IMAGE_FORMATS}
+                            label={option => IMAGE_FORMAT_LABELS[option]}
+                            onChange={format => update({ format })}
+                        />
+                    </Row>
+                )}
+
+                {usesQuality && (
+                    <Row label="质量">
+                        <div className="flex items-center gap-2 pt-1">
+                            <input
+                                type="range"
+                                min={0.5}
+                                max={1}
+                                step={0.01}
+                                value={settings.quality}
+                                onChange={(e) => update({ quality: Number(e.target.value) })}
+                                className="flex-1"
+                            />
+                            <span className="w-10 text-right text-xs text-stone-500">{Math.round(settings.quality * 100)}%</span>
+                        </div>
+                    </Row>
+                )}
+
+                <Row label="倍率">
+                    <Segmented
+                        value={settings.scale}
+                        options={EXPORT_SCALES}
+                        label={option => `${option}x`}
+                        onChange={scale => update({ scale })}
+                    />
+                    <div className="mt-1 text-xs text-stone-400">
+                        输出 {Math.round(canvasFormat.width * settings.scale)}×{Math.round(canvasFormat.height * settings.scale)} 像素/张
+                    </div>
+                </Row>
+
+                <Row label="渲染">
+                    <Segmented
+                        value={settings.renderer}
+                        options={RENDERERS}
+                        label={option => RENDERER_LABELS[option]}
+                        onChange={renderer => update({ renderer })}
+                    />
+                    {settings.renderer === 'canvas' && (
+                        <div className="mt-1 text-xs text-stone-400">
+                            在后台线程绘制，导出时页面不卡顿；封面和带页眉页脚、水印的卡片仍使用页面截图。
+                            {onRenderDiff && (
+                                <button onClick={() => onRenderDiff(settings)} className="ml-1 underline hover:text-stone-600">
+                                    像素对比
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </Row>
+
+                {usesFileNames && (
+                    <Row label="文件名">
+                        <input
+                            value={settings.fileNamePattern}
+                            onChange={(e) => update({ fileNamePattern: e.target.value })}
+                            className="w-full px-2 py-1 text-sm border border-stone-200 rounded-lg outline-none focus:border-stone-400"
+                        />
+                        <div className="mt-1 text-xs text-stone-400">
+                            可用 {'{nn}'} 序号、{'{n}'} 不补零序号、{'{title}'} 项目名、{'{date}'} 日期。不含序号时重名文件会加 -2、-3 后缀。示例：{example}
+                        </div>
+                    </Row>
+                )}
+
+                {isSelection && usesFileNames && (
+                    <div className="text-xs text-stone-400">
+                        文件沿用卡片在整组中的序号，可直接放回原有图片中。
+                    </div>
+                )}
+
+                {settings.packaging === 'long' && (
+                    <div className="text-xs text-stone-400">
+                        {cardCount} 张卡片将竖向拼接为一张长图，超出浏览器尺寸上限时会自动缩小。
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-2 pt-1">
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-2 text-sm text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                    >
+                        取消
+                    </button>
+                    <button
+                        onClick={() => onConfirm(settings)}
+                        className="px-4 py-2 text-sm text-white bg-stone-800 rounded-lg hover:bg-stone-900"
+                    >
+                        导出 {cardCount} 张
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
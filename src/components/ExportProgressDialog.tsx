@@ -0,0 +1,103 @@
+import {
+    EXPORT_FAILURE_LABELS,
+    type ExportFailure,
+    type ExportProgress,
+} from '../utils/exportCards'
+
+interface ExportProgressDialogProps {
+    // Present while the export runs
+    progress: ExportProgress | null
+    // Present once a finished export reported failures
+    failures: ExportFailure[] | null
+    exported: number
+    // Packagings that stitch cards into one document re-export every card on retry
+    retriesAll: boolean
+    onCancel: () => void
+    onRetry: () => void
+    onClose: () => void
+}
+
+function cardLabel(index: number): string {
+    return index === 0 ? '封面' : `#${index}`
+}
+
+export function ExportProgressDialog({ progress, failures, exported, retriesAll, onCancel, onRetry, onClose }: ExportProgressDialogProps) {
+    if (progress) {
+        const current = Math.min(progress.completed + 1, progress.total)
+        return (
+            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/30">
+                <div className="w-[320px] max-w-[92vw] bg-white rounded-xl shadow-xl p-5 space-y-4">
+                    <div className="text-base font-medium text-stone-800">正在导出</div>
+                    <div className="flex items-center gap-4">
+                        <div className="w-[60px] h-[80px] shrink-0 rounded border border-stone-200 bg-stone-50 overflow-hidden flex items-center justify-center">
+                            {progress.thumbnail
+                                ? <img src={progress.thumbnail} alt="" className="w-full h-full object-contain" />
+                                : <span className="text-xs text-stone-300">…</span>}
+                        </div>
+                        <div className="flex-1 min-w-0 space-y-2">
+                            <div className="text-sm text-stone-600">
+                                第 {current} / {progress.total} 张
+                            </div>
+                            <div className="h-1.5 rounded-full bg-stone-100 overflow-hidden">
+                                <div
+                                    className="h-full bg-stone-800 transition-all"
+                                    style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <button
+                            onClick={onCancel}
+                            className="px-4 py-2 text-sm text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                        >
+                            取消导出
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )
+    }
+
+    if (!failures) return null
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/30" onMouseDown={onClose}>
+            <div
+                className="w-[380px] max-w-[92vw] bg-white rounded-xl shadow-xl p-5 space-y-4"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="text-base font-medium text-stone-800">导出未完成</div>
+                <div className="text-sm text-stone-600">
+                    已导出 {exported} 张，{failures.length} 张失败：
+                </div>
+                <ul className="max-h-60 overflow-y-auto divide-y divide-stone-100 text-sm border border-stone-200 rounded-lg">
+                    {failures.map(({ item, reason, message }) => (
+                        <li key={item.id} className="flex items-center gap-3 px-3 py-2" title={message}>
+                            <span className="w-10 shrink-0 text-stone-500">{cardLabel(item.index)}</span>
+                            <span className="text-red-600">{EXPORT_FAILURE_LABELS[reason]}</span>
+                            <span className="flex-1 min-w-0 truncate text-xs text-stone-400">{message}</span>
+                        </li>
+                    ))}
+                </ul>
+                {retriesAll && (
+                    <div className="text-xs text-stone-400">PDF 和长图需要完整的卡片序列，重试将重新导出全部卡片。</div>
+                )}
+                <div className="flex justify-end gap-2 pt-1">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-stone-600 bg-white border border-stone-200 rounded-lg hover:bg-stone-50"
+                    >
+                        关闭
+                    </button>
+                    <button
+                        onClick={onRetry}
+                        className="px-4 py-2 text-sm text-white bg-stone-800 rounded-lg hover:bg-stone-900"
+                    >
+                        {retriesAll ? '重新导出' : `重试失败的 ${failures.length} 张`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,76 @@
+import { useState, useRef, useEffect } from 'react'
+import { HISTORY_ACTION_LABELS, canUndo, canRedo, type History } from '../utils/history'
+
+interface HistoryPanelProps {
+    history: History
+    onUndo: () => void
+    onRedo: () => void
+    onJump: (index: number) => void
+}
+
+function formatTime(time: number): string {
+    return new Date(time).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function HistoryPanel({ history, onUndo, onRedo, onJump }: HistoryPanelProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const listRef = useRef<HTMLUListElement>(null)
+
+    // Close the panel when clicking outside
+    useEffect(() => {
+        if (!isOpen) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isOpen])
+
+    // Keep the current entry in view as the history grows
+    useEffect(() => {
+        if (!isOpen) return
+        listRef.current?.querySelector('[data-current]')?.scrollIntoView({ block: 'nearest' })
+    }, [isOpen, history.index])
+
+    const buttonClass = 'w-8 h-8 flex items-center justify-center rounded-lg text-stone-600 hover:bg-stone-100 disabled:opacity-30 disabled:hover:bg-transparent'
+
+    return (
+        <div ref={containerRef} className="relative flex items-center gap-1">
+            <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClass} title="撤销 (Ctrl+Z)">↶</button>
+            <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClass} title="重做 (Ctrl+Shift+Z)">↷</button>
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className="px-2 py-1 text-xs text-stone-600 border border-stone-200 rounded-lg hover:bg-stone-50"
+                title="操作历史"
+            >
+                历史 · {history.index}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 w-64 bg-white rounded-lg border border-stone-200 shadow-lg z-50 py-1">
+                    <ul ref={listRef} className="max-h-[60vh] overflow-y-auto text-sm">
+                        {history.entries.map((entry, index) => {
+                            const isCurrent = index === history.index
+                            const isUndone = index > history.index
+                            return (
+                                <li key={`${index}-${entry.time}`} data-current={isCurrent || undefined}>
+                                    <button
+                                        onClick={() => onJump(index)}
+                                        className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left hover:bg-stone-50
+                                            ${isCurrent ? 'bg-stone-100 font-medium text-stone-800' : isUndone ? 'text-stone-400' : 'text-stone-600'}`}
+                                    >
+                                        <span className="truncate">{HISTORY_ACTION_LABELS[entry.action]}</span>
+                                        <span className="shrink-0 text-xs text-stone-400 tabular-nums">{formatTime(entry.time)}</span>
+                                    </button>
+                                </li>
+                            )
+                        })}
+                    </ul>
+                </div>
+            )}
+        </div>
+    )
+}
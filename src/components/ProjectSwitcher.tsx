@@ -0,0 +1,166 @@
+import { useState, useRef, useEffect } from 'react'
+import type { Project } from '../types'
+import { BUNDLE_EXTENSION } from '../utils/projectBundle'
+
+interface ProjectSwitcherProps {
+    projects: Project[]
+    activeProjectId: string
+    onOpen: (projectId: string) => void
+    onCreate: () => void
+    onRename: (projectId: string, title: string) => void
+    onDuplicate: (projectId: string) => void
+    onDelete: (projectId: string) => void
+    onExport: (projectId: string) => void
+    onImport: (file: File) => void
+}
+
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('zh-CN', {
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+}
+
+export function ProjectSwitcher({ projects, activeProjectId, onOpen, onCreate, onRename, onDuplicate, onDelete, onExport, onImport }: ProjectSwitcherProps) {
+    const [isOpen, setIsOpen] = useState(false)
+    const [renamingId, setRenamingId] = useState<string | null>(null)
+    const [renameValue, setRenameValue] = useState('')
+    const containerRef = useRef<HTMLDivElement>(null)
+    const importInputRef = useRef<HTMLInputElement>(null)
+
+    const activeProject = projects.find(p => p.id === activeProjectId)
+    const sortedProjects = [...projects].sort((a, b) => b.updatedAt - a.updatedAt)
+
+    // Close the panel when clicking outside
+    useEffect(() => {
+        if (!isOpen) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false)
+                setRenamingId(null)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isOpen])
+
+    const startRename = (project: Project) => {
+        setRenamingId(project.id)
+        setRenameValue(project.title)
+    }
+
+    const commitRename = () => {
+        if (renamingId && renameValue.trim()) {
+            onRename(renamingId, renameValue.trim())
+        }
+        setRenamingId(null)
+    }
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className="px-3 py-1.5 text-sm text-stone-700 bg-stone-100 rounded-lg hover:bg-stone-200
+                           transition-colors flex items-center gap-2 max-w-64"
+                title="切换项目"
+            >
+                <span>📁</span>
+                <span className="truncate">{activeProject?.title ?? '项目'}</span>
+                <span className="text-stone-400 text-xs">▾</span>
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-1 w-80 max-h-[70vh] overflow-y-auto bg-white rounded-lg
+                                border border-stone-200 shadow-lg z-50 p-2">
+                    <div className="flex gap-2 mb-2">
+                        <button
+                            onClick={() => { onCreate(); setIsOpen(false) }}
+                            className="flex-1 py-2 text-sm text-white bg-stone-800 rounded-lg hover:bg-stone-900 transition-colors"
+                        >
+                            + 新建项目
+                        </button>
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            className="px-3 py-2 text-sm text-stone-700 bg-white border border-stone-200 rounded-lg hover:bg-stone-50 transition-colors"
+                            title={`导入 ${BUNDLE_EXTENSION} 项目文件`}
+                        >
+                            导入
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept={`${BUNDLE_EXTENSION},.zip`}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0]
+                                e.target.value = ''
+                                if (!file) return
+                                onImport(file)
+                                setIsOpen(false)
+                            }}
+                            className="hidden"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        {sortedProjects.map(project => (
+                            <div
+                                key={project.id}
+                                className={`group rounded-lg px-2 py-1.5 flex items-center gap-2 ${project.id === activeProjectId
+                                    ? 'bg-stone-100'
+                                    : 'hover:bg-stone-50'
+                                    }`}
+                            >
+                                {renamingId === project.id ? (
+                                    <input
+                                        autoFocus
+                                        value={renameValue}
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename()
+                                            if (e.key === 'Escape') setRenamingId(null)
+                                        }}
+                                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-stone-300 rounded outline-none focus:ring-2 focus:ring-stone-300"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => { onOpen(project.id); setIsOpen(false) }}
+                                        className="flex-1 min-w-0 text-left cursor-pointer"
+                                    >
+                                        <div className="text-sm text-stone-800 truncate">{project.title}</div>
+                                        <div className="text-[10px] text-stone-400">
+                                            更新于 {formatTimestamp(project.updatedAt)} · 创建于 {formatTimestamp(project.createdAt)}
+                                        </div>
+                                    </button>
+                                )}
+                                <div className="shrink-0 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={() => startRename(project)}
+                                        className="w-6 h-6 rounded text-xs text-stone-500 hover:bg-stone-200"
+                                        title="重命名"
+                                    >✎</button>
+                                    <button
+                                        onClick={() => onExport(project.id)}
+                                        className="w-6 h-6 rounded text-xs text-stone-500 hover:bg-stone-200"
+                                        title={`导出为 ${BUNDLE_EXTENSION} 文件`}
+                                    >⇩</button>
+                                    <button
+                                        onClick={() => onDuplicate(project.id)}
+                                        className="w-6 h-6 rounded text-xs text-stone-500 hover:bg-stone-200"
+                                        title="复制"
+                                    >⧉</button>
+                                    <button
+                                        onClick={() => onDelete(project.id)}
+                                        className="w-6 h-6 rounded text-xs text-red-500 hover:bg-red-50"
+                                        title="删除"
+                                    >×</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,5 +1,6 @@
 import { useRef, useCallback, forwardRef, useImperativeHandle } from 'react'
 import { nanoid } from 'nanoid'
+import { htmlToMarkdown, isStructuredHtml } from '../utils/htmlToMarkdown'
 
 function getLineRange(text: string, index: number): { lineStart: number; lineEnd: number } {
     const lineStart = text.lastIndexOf('\n', Math.max(0, index - 1)) + 1
@@ -55,6 +56,22 @@ function insertImagePlaceholder(textarea: HTMLTextAreaElement, imageId: string)
     textarea.setSelectionRange(newPos, newPos)
 }
 
+function insertMarkdownBlock(textarea: HTMLTextAreaElement, markdown: string) {
+    const start = textarea.selectionStart ?? 0
+    const end = textarea.selectionEnd ?? start
+    const text = textarea.value
+    const before = text.slice(0, start)
+    const after = text.slice(end)
+
+    const leading = before.length === 0 || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n'
+    const trailing = after.length === 0 || after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n'
+    const insert = leading + markdown + trailing
+
+    textarea.setRangeText(insert, start, end, 'preserve')
+    const newPos = start + insert.length
+    textarea.setSelectionRange(newPos, newPos)
+}
+
 function toggleInlineFormat(textarea: HTMLTextAreaElement, prefix: string, suffix: string) {
     const value = textarea.value
     const selectionStart = textarea.selectionStart ?? 0
@@ -223,6 +240,25 @@ function canContinueMarkdownList(text: string, caret: number): boolean {
     return /^(\s*)([-*+]|(\d+)\.)(\s+)/.test(line)
 }
 
+/**
+ * Convert article HTML, adding the images the markdown keeps. Only data URLs
+ * survive export; remote (hotlink-protected) WeChat images are dropped, and so
+ * are images the conversion leaves out, so no asset is stored without a placeholder.
+ */
+function convertArticleHtml(html: string, onImageAdd: (id: string, base64: string) => void): string {
+    const pending = new Map<string, string>()
+    const markdown = htmlToMarkdown(html, src => {
+        if (!src.startsWith('data:image/')) return null
+        const imageId = nanoid(8)
+        pending.set(imageId, src)
+        return imageId
+    })
+    for (const [imageId, src] of pending) {
+        if (markdown.includes(`[IMG:${imageId}]`)) onImageAdd(imageId, src)
+    }
+    return markdown
+}
+
 interface FormatToolbarProps {
     textareaRef: React.RefObject<HTMLTextAreaElement | null>
     onChange: (value: string) => void
@@ -243,6 +279,7 @@ const formatMarkers: Record<FormatType, { prefix: string; suffix: string }> = {
 
 export function FormatToolbar({ textareaRef, onChange, onImageAdd, onImageRemove, images }: FormatToolbarProps) {
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const htmlInputRef = useRef<HTMLInputElement>(null)
 
     const applyFormat = useCallback((type: FormatType) => {
         const textarea = textareaRef.current
@@ -329,6 +366,22 @@ export function FormatToolbar({ textareaRef, onChange, onImageAdd, onImageRemove
         e.target.value = ''
     }, [insertImageAtCursor])
 
+    const handleHtmlImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        const reader = new FileReader()
+        reader.onload = () => {
+            const textarea = textareaRef.current
+            if (!textarea) return
+            const markdown = convertArticleHtml(reader.result as string, onImageAdd)
+            if (!markdown) return
+            runTextareaCommand(textarea, onChange, (el) => insertMarkdownBlock(el, markdown))
+        }
+        reader.readAsText(file)
+    }, [textareaRef, onChange, onImageAdd])
+
     const handleRemoveImage = useCallback((id: string) => {
         // Remove from images map via callback
         onImageRemove?.(id)
@@ -415,9 +468,26 @@ export function FormatToolbar({ textareaRef, onChange, onImageAdd, onImageRemove
                     onChange={handleFileUpload}
                     className="hidden"
                 />
+                <button
+                    type="button"
+                    onClick={() => htmlInputRef.current?.click()}
+                    title="导入公众号文章 HTML"
+                    className="px-2 h-8 flex items-center justify-center rounded
+                     text-stone-600 hover:bg-stone-200 hover:text-stone-800
+                     transition-colors text-xs"
+                >
+                    📄 导入
+                </button>
+                <input
+                    ref={htmlInputRef}
+                    type="file"
+                    accept=".html,.htm,text/html"
+                    onChange={handleHtmlImport}
+                    className="hidden"
+                />
                 <div className="flex-1" />
                 <span className="text-xs text-stone-400 pr-2">
-                    支持粘贴图片
+                    支持粘贴图片/公众号文章
                 </span>
             </div>
             {/* Image thumbnails gallery */}
@@ -528,8 +598,20 @@ export const RichTextInput = forwardRef<RichTextInputHandle, RichTextInputProps>
             }
         }))
 
-        // Handle paste event for images
+        // Handle paste event for article HTML and images
         const handlePaste = useCallback((e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+            const html = e.clipboardData?.getData('text/html')
+            if (html && isStructuredHtml(html)) {
+                const textarea = textareaRef.current
+                if (!textarea) return
+                const markdown = convertArticleHtml(html, onImageAdd)
+                if (markdown) {
+                    e.preventDefault()
+                    runTextareaCommand(textarea, onChange, (el) => insertMarkdownBlock(el, markdown))
+                    return
+                }
+            }
+
             const items = e.clipboardData?.items
             if (!items) return
 
@@ -628,6 +710,7 @@ export const RichTextInput = forwardRef<RichTextInputHandle, RichTextInputProps>
                 />
                 <textarea
                     ref={textareaRef}
+                    data-app-history
                     value={value}
                     onChange={(e) => onChange(e.target.value)}
                     onPaste={handlePaste}
@@ -0,0 +1,277 @@
+import { useState, useRef, type ReactNode } from 'react'
+import type { StoredFont } from '../utils/assetStore'
+import { FONT_FILE_ACCEPT, fontStack } from '../utils/fonts'
+import {
+    FONT_OPTIONS,
+    TEXTURE_OPTIONS,
+    type Theme,
+    type ThemeBackground,
+} from '../utils/theme'
+
+interface ThemeEditorProps {
+    theme: Theme
+    // True when the theme is one of the user's saved themes (so it can be updated in place)
+    isCustom: boolean
+    // Fonts uploaded to the current project
+    fonts: StoredFont[]
+    onChange: (theme: Theme) => void
+    onFontUpload: (file: File) => void
+    onFontDelete: (fontId: string) => void
+    onSave: (name: string) => void
+    onSaveAsNew: (name: string) => void
+    onClose: () => void
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className="flex items-center gap-2 text-xs">
+            <span className="w-14 shrink-0 text-stone-500">{label}</span>
+            <div className="flex-1 min-w-0 flex items-center gap-1.5">{children}</div>
+        </div>
+    )
+}
+
+function ColorInput({ value, onChange, title }: { value: string; onChange: (value: string) => void; title?: string }) {
+    return (
+        <input
+            type="color"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-6 h-6 p-0 border border-stone-200 rounded cursor-pointer"
+            title={title ?? value}
+        />
+    )
+}
+
+// Stands for "follow the body font" in the select, stored as undefined
+const INHERIT_FONT = ''
+
+function FontSelect({ value, fonts, allowInherit = false, onChange }: {
+    value: string
+    fonts: StoredFont[]
+    allowInherit?: boolean
+    onChange: (value: string) => void
+}) {
+    const options = [
+        ...FONT_OPTIONS,
+        ...fonts.map(font => ({ label: font.name, value: fontStack(font) })),
+    ]
+    const known = options.some(option => option.value === value) || (allowInherit && value === INHERIT_FONT)
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="flex-1 min-w-0 text-xs text-stone-600 bg-white border border-stone-200 rounded px-1 py-0.5 cursor-pointer"
+        >
+            {allowInherit && <option value={INHERIT_FONT}>跟随正文</option>}
+            {!known && <option value={value}>缺失字体</option>}
+            {options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+        </select>
+    )
+}
+
+export function ThemeEditor({ theme, isCustom, fonts, onChange, onFontUpload, onFontDelete, onSave, onSaveAsNew, onClose }: ThemeEditorProps) {
+    const [name, setName] = useState(isCustom ? theme.name : `${theme.name} 自定义`)
+    const fontInputRef = useRef<HTMLInputElement>(null)
+    const { background } = theme
+    const { gradient, texture, grid } = background
+
+    const update = (patch: Partial<Theme>) => onChange({ ...theme, ...patch })
+    const updateBackground = (patch: Partial<ThemeBackground>) => update({ background: { ...background, ...patch } })
+    const trimmedName = name.trim() || theme.name
+
+    return (
+        <div className="w-72 max-h-[75vh] overflow-y-auto bg-white rounded-lg border border-stone-200 shadow-lg p-3 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-stone-700">编辑主题</span>
+                <button onClick={onClose} className="w-6 h-6 rounded text-stone-400 hover:bg-stone-100" title="关闭">×</button>
+            </div>
+
+            <div className="space-y-1.5">
+                <div className="text-[11px] font-medium text-stone-400">背景</div>
+                <Field label="底色">
+                    <ColorInput value={background.color} onChange={(color) => updateBackground({ color })} />
+                </Field>
+                <Field label="渐变">
+                    <input
+                        type="checkbox"
+                        checked={!!gradient}
+                        onChange={(e) => updateBackground({
+                            gradient: e.target.checked ? { from: background.color, to: background.color, angle: 180 } : undefined,
+                        })}
+                    />
+                    {gradient && (
+                        <>
+                            <ColorInput value={gradient.from} onChange={(from) => updateBackground({ gradient: { ...gradient, from } })} title="起始色" />
+                            <ColorInput value={gradient.to} onChange={(to) => updateBackground({ gradient: { ...gradient, to } })} title="结束色" />
+                            <input
+                                type="number"
+                                min={0}
+                                max={360}
+                                step={15}
+                                value={gradient.angle}
+                                onChange={(e) => updateBackground({ gradient: { ...gradient, angle: Number(e.target.value) || 0 } })}
+                                className="w-14 px-1 py-0.5 border border-stone-200 rounded"
+                                title="角度"
+                            />
+                        </>
+                    )}
+                </Field>
+                <Field label="纹理">
+                    <select
+                        value={texture?.url ?? ''}
+                        onChange={(e) => updateBackground({
+                            texture: e.target.value
+                                ? { size: 130, opacity: 1, ...texture, url: e.target.value }
+                                : undefined,
+                        })}
+                        className="flex-1 min-w-0 text-xs text-stone-600 bg-white border border-stone-200 rounded px-1 py-0.5 cursor-pointer"
+                    >
+                        <option value="">无</option>
+                        {TEXTURE_OPTIONS.map(option => (
+                            <option key={option.url} value={option.url}>{option.label}</option>
+                        ))}
+                    </select>
+                    {texture && (
+                        <input
+                            type="range"
+                            min={0.1}
+                            max={1}
+                            step={0.05}
+                            value={texture.opacity}
+                            onChange={(e) => updateBackground({ texture: { ...texture, opacity: Number(e.target.value) } })}
+                            className="w-16"
+                            title="纹理浓度"
+                        />
+                    )}
+                </Field>
+                <Field label="网格">
+                    <input
+                        type="checkbox"
+                        checked={!!grid}
+                        onChange={(e) => updateBackground({
+                            grid: e.target.checked ? { color: '#000000', size: 28, opacity: 0.05 } : undefined,
+                        })}
+                    />
+                    {grid && (
+                        <>
+                            <ColorInput value={grid.color} onChange={(color) => updateBackground({ grid: { ...grid, color } })} />
+                            <input
+                                type="number"
+                                min={8}
+                                max={120}
+                                value={grid.size}
+                                onChange={(e) => updateBackground({ grid: { ...grid, size: Math.max(8, Number(e.target.value) || 28) } })}
+                                className="w-14 px-1 py-0.5 border border-stone-200 rounded"
+                                title="格子大小 (px)"
+                            />
+                        </>
+                    )}
+                </Field>
+            </div>
+
+            <div className="space-y-1.5">
+                <div className="text-[11px] font-medium text-stone-400">文字</div>
+                <Field label="正文">
+                    <ColorInput value={theme.textColor} onChange={(textColor) => update({ textColor })} />
+                </Field>
+                <Field label="标题">
+                    {(['h1', 'h2', 'h3'] as const).map(level => (
+                        <ColorInput
+                            key={level}
+                            value={theme.headingColors[level]}
+                            onChange={(color) => update({ headingColors: { ...theme.headingColors, [level]: color } })}
+                            title={level.toUpperCase()}
+                        />
+                    ))}
+                </Field>
+                <Field label="加粗">
+                    <ColorInput value={theme.strongColor} onChange={(strongColor) => update({ strongColor })} />
+                </Field>
+                <Field label="高亮">
+                    <ColorInput value={theme.markColor} onChange={(markColor) => update({ markColor })} />
+                </Field>
+            </div>
+
+            <div className="space-y-1.5">
+                <div className="text-[11px] font-medium text-stone-400">字体</div>
+                <Field label="正文">
+                    <FontSelect value={theme.fontFamily} fonts={fonts} onChange={(fontFamily) => update({ fontFamily })} />
+                </Field>
+                <Field label="标题">
+                    <FontSelect value={theme.headingFontFamily} fonts={fonts} onChange={(headingFontFamily) => update({ headingFontFamily })} />
+                </Field>
+                <Field label="高亮">
+                    <FontSelect
+                        value={theme.markFontFamily ?? INHERIT_FONT}
+                        fonts={fonts}
+                        allowInherit
+                        onChange={(markFontFamily) => update({ markFontFamily: markFontFamily || undefined })}
+                    />
+                </Field>
+                {fonts.map(font => (
+                    <div key={font.id} className="flex items-center gap-2 pl-16 text-xs text-stone-600">
+                        <span className="flex-1 min-w-0 truncate" style={{ fontFamily: fontStack(font) }}>{font.name}</span>
+                        <button
+                            onClick={() => {
+                                if (confirm(`删除字体「${font.name}」吗？使用它的文字会换回默认字体。`)) onFontDelete(font.id)
+                            }}
+                            className="px-1 text-stone-400 hover:text-red-500"
+                            title="删除字体"
+                        >×</button>
+                    </div>
+                ))}
+                <div className="pl-16">
+                    <button
+                        onClick={() => fontInputRef.current?.click()}
+                        className="px-2 py-0.5 text-xs border border-stone-200 rounded hover:bg-stone-50"
+                        title="支持 TTF、OTF、WOFF2，字体保存在当前项目中"
+                    >
+                        + 上传字体
+                    </button>
+                    <input
+                        ref={fontInputRef}
+                        type="file"
+                        accept={FONT_FILE_ACCEPT}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0]
+                            e.target.value = ''
+                            if (file) onFontUpload(file)
+                        }}
+                        className="hidden"
+                    />
+                </div>
+            </div>
+
+            <div className="pt-2 border-t border-stone-100 space-y-2">
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="主题名称"
+                    className="w-full px-2 py-1 text-xs border border-stone-200 rounded outline-none focus:border-stone-400"
+                />
+                <div className="flex gap-2">
+                    {isCustom && (
+                        <button
+                            onClick={() => onSave(trimmedName)}
+                            className="flex-1 py-1.5 text-xs text-white bg-stone-800 rounded hover:bg-stone-900"
+                        >
+                            保存
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onSaveAsNew(trimmedName)}
+                        className={`flex-1 py-1.5 text-xs rounded ${isCustom
+                            ? 'text-stone-700 bg-white border border-stone-200 hover:bg-stone-50'
+                            : 'text-white bg-stone-800 hover:bg-stone-900'
+                            }`}
+                    >
+                        另存为新主题
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,116 @@
+import { useState, useRef, useEffect } from 'react'
+import { BUILT_IN_THEMES, getThemeStyle, getThemeLayers, themesEqual, type Theme } from '../utils/theme'
+import { ThemeEditor } from './ThemeEditor'
+import type { StoredFont } from '../utils/assetStore'
+
+interface ThemePickerProps {
+    theme: Theme
+    customThemes: Theme[]
+    fonts: StoredFont[]
+    onSelect: (theme: Theme) => void
+    onChange: (theme: Theme) => void
+    onSave: (name: string) => void
+    onSaveAsNew: (name: string) => void
+    onDelete: (themeId: string) => void
+    onFontUpload: (file: File) => void
+    onFontDelete: (fontId: string) => void
+}
+
+function ThemeSwatch({ theme }: { theme: Theme }) {
+    return (
+        <div className="relative w-full h-6 rounded overflow-hidden border border-stone-200" style={getThemeStyle(theme)}>
+            {getThemeLayers(theme).map((style, i) => (
+                <div key={i} className="absolute inset-0" style={style} />
+            ))}
+            <span className="absolute inset-0 flex items-center justify-center text-[10px] font-bold" style={{ color: theme.headingColors.h1 }}>
+                文<span style={{ color: theme.strongColor }}>A</span>
+            </span>
+        </div>
+    )
+}
+
+export function ThemePicker({ theme, customThemes, fonts, onSelect, onChange, onSave, onSaveAsNew, onDelete, onFontUpload, onFontDelete }: ThemePickerProps) {
+    const [isEditing, setIsEditing] = useState(false)
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    // Close the editor when clicking outside
+    useEffect(() => {
+        if (!isEditing) return
+        const handleMouseDown = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsEditing(false)
+            }
+        }
+        document.addEventListener('mousedown', handleMouseDown)
+        return () => document.removeEventListener('mousedown', handleMouseDown)
+    }, [isEditing])
+
+    const savedVersion = [...BUILT_IN_THEMES, ...customThemes].find(t => t.id === theme.id)
+    const isModified = !savedVersion || !themesEqual(savedVersion, theme)
+    const isCustom = customThemes.some(t => t.id === theme.id)
+
+    const renderOption = (option: Theme, deletable: boolean) => {
+        const isActive = option.id === theme.id
+        return (
+            <div key={option.id} className="group relative">
+                <button
+                    onClick={() => onSelect(option)}
+                    className={`w-full p-1 rounded-lg text-[11px] transition-all cursor-pointer space-y-1 ${isActive
+                        ? 'bg-stone-800 text-white shadow-md'
+                        : 'bg-white text-stone-600 hover:bg-stone-100 border border-stone-200'
+                        }`}
+                    title={option.name}
+                >
+                    <ThemeSwatch theme={isActive ? theme : option} />
+                    <div className="truncate">{option.name}{isActive && isModified && ' *'}</div>
+                </button>
+                {deletable && (
+                    <button
+                        onClick={() => {
+                            if (confirm(`删除主题「${option.name}」吗？使用中的项目不受影响。`)) onDelete(option.id)
+                        }}
+                        className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-white border border-stone-200 text-[10px] leading-none
+                                   text-stone-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="删除主题"
+                    >×</button>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div ref={containerRef} className="shrink-0 w-16 flex flex-col gap-2 py-2 relative z-30 min-h-0">
+            <div className="text-xs text-stone-400 text-center mb-1">主题</div>
+            <div className="flex-1 min-h-0 overflow-y-auto flex flex-col gap-2">
+                {BUILT_IN_THEMES.map(option => renderOption(option, false))}
+                {customThemes.length > 0 && <div className="border-t border-stone-200" />}
+                {customThemes.map(option => renderOption(option, true))}
+            </div>
+            <button
+                onClick={() => setIsEditing(e => !e)}
+                className={`shrink-0 w-full py-1.5 rounded-lg text-xs transition-colors ${isEditing
+                    ? 'bg-stone-800 text-white'
+                    : 'bg-white text-stone-600 hover:bg-stone-100 border border-stone-200'
+                    }`}
+            >
+                编辑
+            </button>
+            {isEditing && (
+                <div className="absolute right-full top-0 mr-2 z-50">
+                    <ThemeEditor
+                        key={theme.id}
+                        theme={theme}
+                        isCustom={isCustom}
+                        fonts={fonts}
+                        onChange={onChange}
+                        onFontUpload={onFontUpload}
+                        onFontDelete={onFontDelete}
+                        onSave={onSave}
+                        onSaveAsNew={onSaveAsNew}
+                        onClose={() => setIsEditing(false)}
+                    />
+                </div>
+            )}
+        </div>
+    )
+}
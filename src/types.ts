@@ -1,3 +1,9 @@
+import type { Typography } from './utils/splitToCards'
+import type { CanvasFormat } from './utils/canvasFormat'
+import type { CoverSettings } from './utils/coverCard'
+import type { CardDecorations } from './utils/cardDecorations'
+import type { Theme } from './utils/theme'
+
 export type Card = {
     id: string
     text: string
@@ -5,6 +11,14 @@ export type Card = {
 }
 
 export type Project = {
+    id: string
+    title: string
+    createdAt: number
+    updatedAt: number
     originalText: string
-    cards: Card[]
+    typography: Typography
+    theme: Theme
+    canvasFormat: CanvasFormat
+    cover: CoverSettings
+    decorations: CardDecorations
 }
@@ -0,0 +1,200 @@
+/**
+ * IndexedDB-backed storage for pasted images, so `[IMG:id]` placeholders
+ * survive reloads together with the project they belong to, and for the
+ * font files uploaded to a project.
+ */
+
+const DB_NAME = 'wx2xhs-assets'
+const DB_VERSION = 3
+const LEGACY_IMAGE_STORE = 'images' // v1: images of the single draft, keyed by id
+const IMAGE_STORE = 'projectImages' // v2: keyed by [projectId, id]
+const FONT_STORE = 'projectFonts' // v3: keyed by [projectId, id]
+const PROJECT_INDEX = 'projectId'
+
+export type StoredImage = {
+    id: string
+    dataUrl: string
+    width?: number
+    height?: number
+    widthPercent?: number
+}
+
+type ImageRecord = StoredImage & { projectId: string }
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff2'
+
+export type StoredFont = {
+    id: string
+    // Display name, from the uploaded file name
+    name: string
+    format: FontFormat
+    data: ArrayBuffer
+}
+
+type FontRecord = StoredFont & { projectId: string }
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'))
+            return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+            const db = request.result
+            if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+                const store = db.createObjectStore(IMAGE_STORE, { keyPath: ['projectId', 'id'] })
+                store.createIndex(PROJECT_INDEX, 'projectId')
+            }
+            if (!db.objectStoreNames.contains(FONT_STORE)) {
+                const store = db.createObjectStore(FONT_STORE, { keyPath: ['projectId', 'id'] })
+                store.createIndex(PROJECT_INDEX, 'projectId')
+            }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+    // Allow a later retry if opening failed (e.g. private mode quota errors).
+    dbPromise.catch(() => { dbPromise = null })
+    return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
+
+function toStoredImage({ id, dataUrl, width, height, widthPercent }: ImageRecord): StoredImage {
+    return { id, dataUrl, width, height, widthPercent }
+}
+
+/**
+ * Collect every image id referenced by `[IMG:id]` placeholders in the text.
+ */
+export function extractImageIds(text: string): Set<string> {
+    const ids = new Set<string>()
+    // Escaped placeholders (`\[IMG:id]`) are literal text
+    const regex = /(?<=(?:^|[^\\])(?:\\\\)*)\[IMG:([a-zA-Z0-9_-]+)\]/g
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(text)) !== null) {
+        ids.add(match[1])
+    }
+    return ids
+}
+
+export async function loadImages(projectId: string): Promise<StoredImage[]> {
+    const db = await openDatabase()
+    const tx = db.transaction(IMAGE_STORE, 'readonly')
+    const index = tx.objectStore(IMAGE_STORE).index(PROJECT_INDEX)
+    const records = await requestToPromise(index.getAll(projectId) as IDBRequest<ImageRecord[]>)
+    return records.map(toStoredImage)
+}
+
+export async function saveImages(projectId: string, images: StoredImage[]): Promise<void> {
+    if (images.length === 0) return
+    const db = await openDatabase()
+    const tx = db.transaction(IMAGE_STORE, 'readwrite')
+    const store = tx.objectStore(IMAGE_STORE)
+    for (const image of images) store.put({ ...image, projectId })
+    await transactionDone(tx)
+}
+
+export async function deleteImages(projectId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const db = await openDatabase()
+    const tx = db.transaction(IMAGE_STORE, 'readwrite')
+    const store = tx.objectStore(IMAGE_STORE)
+    for (const id of ids) store.delete([projectId, id])
+    await transactionDone(tx)
+}
+
+export async function deleteProjectImages(projectId: string): Promise<void> {
+    const images = await loadImages(projectId)
+    await deleteImages(projectId, images.map(image => image.id))
+}
+
+export async function copyProjectImages(fromProjectId: string, toProjectId: string): Promise<void> {
+    const images = await loadImages(fromProjectId)
+    await saveImages(toProjectId, images)
+}
+
+/**
+ * Move images saved by the single-draft version (v1 store) into the given project.
+ */
+export async function adoptLegacyImages(projectId: string): Promise<void> {
+    const db = await openDatabase()
+    if (!db.objectStoreNames.contains(LEGACY_IMAGE_STORE)) return
+
+    const tx = db.transaction([LEGACY_IMAGE_STORE, IMAGE_STORE], 'readwrite')
+    const legacyStore = tx.objectStore(LEGACY_IMAGE_STORE)
+    const legacy = await requestToPromise(legacyStore.getAll() as IDBRequest<StoredImage[]>)
+    const store = tx.objectStore(IMAGE_STORE)
+    for (const image of legacy) store.put({ ...image, projectId })
+    legacyStore.clear()
+    await transactionDone(tx)
+}
+
+/**
+ * Load a project's stored images and drop the ones no longer referenced by
+ * `text` or by `otherIds` (images used outside the text, e.g. the cover's hero).
+ * Returns only the images still in use.
+ */
+export async function restoreImages(projectId: string, text: string, otherIds: string[] = []): Promise<StoredImage[]> {
+    const stored = await loadImages(projectId)
+    const referenced = new Set([...extractImageIds(text), ...otherIds])
+    const orphans = stored.filter(image => !referenced.has(image.id)).map(image => image.id)
+    await deleteImages(projectId, orphans)
+    return stored.filter(image => referenced.has(image.id))
+}
+
+export async function loadFonts(projectId: string): Promise<StoredFont[]> {
+    const db = await openDatabase()
+    const tx = db.transaction(FONT_STORE, 'readonly')
+    const index = tx.objectStore(FONT_STORE).index(PROJECT_INDEX)
+    const records = await requestToPromise(index.getAll(projectId) as IDBRequest<FontRecord[]>)
+    return records.map(({ id, name, format, data }) => ({ id, name, format, data }))
+}
+
+export async function saveFonts(projectId: string, fonts: StoredFont[]): Promise<void> {
+    if (fonts.length === 0) return
+    const db = await openDatabase()
+    const tx = db.transaction(FONT_STORE, 'readwrite')
+    const store = tx.objectStore(FONT_STORE)
+    for (const font of fonts) store.put({ ...font, projectId })
+    await transactionDone(tx)
+}
+
+export async function deleteFonts(projectId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const db = await openDatabase()
+    const tx = db.transaction(FONT_STORE, 'readwrite')
+    const store = tx.objectStore(FONT_STORE)
+    for (const id of ids) store.delete([projectId, id])
+    await transactionDone(tx)
+}
+
+export async function deleteProjectFonts(projectId: string): Promise<void> {
+    const fonts = await loadFonts(projectId)
+    await deleteFonts(projectId, fonts.map(font => font.id))
+}
+
+export async function copyProjectFonts(fromProjectId: string, toProjectId: string): Promise<void> {
+    const fonts = await loadFonts(fromProjectId)
+    await saveFonts(toProjectId, fonts)
+}
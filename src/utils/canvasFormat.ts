@@ -0,0 +1,62 @@
+/**
+ * Canvas formats: output size and paddings shared by the splitter, preview,
+ * thumbnails and exporter.
+ */
+
+export type CanvasFormatId = '3:4' | '1:1' | '4:5' | '9:16' | 'custom'
+
+export interface CanvasFormat {
+    id: CanvasFormatId
+    width: number
+    height: number
+    paddingTop: number
+    paddingBottom: number
+    paddingX: number
+}
+
+export const CANVAS_PRESETS: Record<Exclude<CanvasFormatId, 'custom'>, CanvasFormat> = {
+    '3:4': { id: '3:4', width: 1080, height: 1440, paddingTop: 100, paddingBottom: 80, paddingX: 100 },
+    '1:1': { id: '1:1', width: 1080, height: 1080, paddingTop: 90, paddingBottom: 70, paddingX: 100 },
+    '4:5': { id: '4:5', width: 1080, height: 1350, paddingTop: 100, paddingBottom: 80, paddingX: 100 },
+    '9:16': { id: '9:16', width: 1080, height: 1920, paddingTop: 160, paddingBottom: 140, paddingX: 90 },
+}
+
+export const DEFAULT_CANVAS_FORMAT = CANVAS_PRESETS['3:4']
+
+export const CANVAS_FORMAT_LABELS: Record<CanvasFormatId, string> = {
+    '3:4': '3:4 小红书',
+    '1:1': '1:1 方图',
+    '4:5': '4:5 竖图',
+    '9:16': '9:16 全屏',
+    custom: '自定义',
+}
+
+export const CUSTOM_SIZE_MIN = 320
+export const CUSTOM_SIZE_MAX = 4096
+
+/**
+ * Build a custom format; paddings scale with the width relative to the 1080px presets.
+ */
+export function createCustomFormat(width: number, height: number): CanvasFormat {
+    const w = Math.round(Math.min(CUSTOM_SIZE_MAX, Math.max(CUSTOM_SIZE_MIN, width)))
+    const h = Math.round(Math.min(CUSTOM_SIZE_MAX, Math.max(CUSTOM_SIZE_MIN, height)))
+    const scale = w / DEFAULT_CANVAS_FORMAT.width
+    return {
+        id: 'custom',
+        width: w,
+        height: h,
+        paddingTop: Math.round(DEFAULT_CANVAS_FORMAT.paddingTop * scale),
+        paddingBottom: Math.round(DEFAULT_CANVAS_FORMAT.paddingBottom * scale),
+        paddingX: Math.round(DEFAULT_CANVAS_FORMAT.paddingX * scale),
+    }
+}
+
+/**
+ * Size of the area available to card content inside the paddings.
+ */
+export function getContentBox(format: CanvasFormat): { width: number; height: number } {
+    return {
+        width: format.width - format.paddingX * 2,
+        height: format.height - format.paddingTop - format.paddingBottom,
+    }
+}
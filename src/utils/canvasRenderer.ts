@@ -0,0 +1,502 @@
+import type { Card } from '../types'
+import { getContentBox, type CanvasFormat } from './canvasFormat'
+import type { Typography } from './splitToCards'
+import type { Theme } from './theme'
+import { effectiveTypography, effectiveTheme, type CardAlign } from './cardOverrides'
+import { parseCardDocument, flattenBlocks, type ContentBlock, type Inline } from './cardDocument'
+import { resolveCardLayout } from './cardLayouts'
+
+/**
+ * Canvas renderer: lays out and paints a content card from the block model,
+ * following the card stylesheet in index.css without going through the DOM.
+ * It runs in the export worker on an OffscreenCanvas; the cover, cards with
+ * decorations or a layout template, and cards with quotes, code, tables,
+ * inline code or strikethrough are still captured from the DOM.
+ */
+
+export interface CardScene {
+    id: string
+    blocks: ContentBlock[]
+    typography: Typography
+    theme: Theme
+    align: CardAlign
+    // Layout format: the content box the DOM preview lays the text out in
+    format: CanvasFormat
+    // Image id -> width percentage (20-100)
+    imageSizes: Record<string, number>
+}
+
+export interface SceneAssets {
+    images: Map<string, ImageBitmap>
+    // Theme texture url -> bitmap
+    textures: Map<string, ImageBitmap>
+}
+
+type Context = OffscreenCanvasRenderingContext2D
+
+// Multipliers and em margins of h1-h3 (index.css)
+const HEADING_STYLES = {
+    1: { size: 1.5, weight: 700, lineHeight: 1.3, marginTop: 0.5, marginBottom: 0.8 },
+    2: { size: 1.25, weight: 600, lineHeight: 1.4, marginTop: 0.4, marginBottom: 0.6 },
+    3: { size: 1.1, weight: 600, lineHeight: 1.5, marginTop: 0.3, marginBottom: 0.5 },
+} as const
+
+const IMAGE_MARGIN_EM = 0.8
+const IMAGE_RADIUS_PX = 8
+const LIST_MARGIN_EM = 0.5
+const LIST_ITEM_MARGIN_EM = 0.4
+const BULLET_INDENT_EM = 1.2
+const ORDERED_INDENT_EM = 1.5
+const BULLET_SIZE_PX = 6
+const MARK_PADDING_PX = 4
+const UNDERLINE_OFFSET_PX = 4
+
+// `line-break: strict`: punctuation that may not start a line, and openers that may not end one
+const NO_LINE_START = /^[，。、！？；：）」』》〉】’”…—·,.!?;:)\]}%]/
+const NO_LINE_END = /[（「『《〈【‘“([{]$/
+// CJK characters break anywhere; other text breaks between words
+const CJK = '\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF\u3000-\u303F'
+const ATOM_REGEX = new RegExp(`\\n|[^\\S\\n]+|[${CJK}]|[^\\s${CJK}]+`, 'g')
+
+interface TextStyle {
+    bold: boolean
+    italic: boolean
+    mark: boolean
+    underline: boolean
+}
+
+const PLAIN: TextStyle = { bold: false, italic: false, mark: false, underline: false }
+
+const INLINE_STYLES: Partial<Record<Inline['type'], keyof TextStyle>> = {
+    strong: 'bold',
+    em: 'italic',
+    mark: 'mark',
+    underline: 'underline',
+}
+
+interface Run {
+    text: string
+    style: TextStyle
+}
+
+// Font, colours and size of a block; inline styles vary weight, family and colour
+interface BlockFont {
+    size: number
+    weight: number
+    family: string
+    markFamily: string
+    lineHeight: number
+    color: string
+}
+
+interface Atom {
+    text: string
+    style: TextStyle
+    font: string
+    width: number
+    padLeft: number
+    padRight: number
+    space: boolean
+    hardBreak: boolean
+}
+
+interface Line {
+    atoms: Atom[]
+    width: number
+    // Soft-wrapped lines are justified; the last line and lines before a <br> are not
+    justify: boolean
+}
+
+// Blocks the renderer lays out; cards with other blocks are captured from the DOM
+type DrawableBlock = Extract<ContentBlock, { kind: 'paragraph' | 'heading' | 'image' | 'list' }>
+
+// Inline content the renderer draws; links read as their text, like the preview
+function isDrawableInline(inline: Inline): boolean {
+    if (inline.type === 'code' || inline.type === 'delete') return false
+    return !('children' in inline) || inline.children.every(isDrawableInline)
+}
+
+function isDrawable(block: ContentBlock): block is DrawableBlock {
+    switch (block.kind) {
+        case 'paragraph':
+        case 'heading':
+            return block.inlines.every(isDrawableInline)
+        case 'image':
+            return true
+        case 'list':
+            return block.items.every(item => item.inlines.every(isDrawableInline))
+        default:
+            return false
+    }
+}
+
+interface Box {
+    marginTop: number
+    marginBottom: number
+    height: number
+    paint: (top: number) => void
+}
+
+/**
+ * Scene for a content card, from its text and the project settings, with the
+ * card's `@card` overrides applied. Null for templated cards and cards with
+ * blocks the renderer doesn't lay out.
+ */
+export function createCardScene(card: Card, settings: Omit<CardScene, 'id' | 'blocks' | 'align'>): CardScene | null {
+    const { overrides, body, blocks: documentBlocks } = parseCardDocument(card.text)
+    if (resolveCardLayout(body, overrides?.layout) !== 'flow') return null
+    const blocks = flattenBlocks(documentBlocks)
+    if (!blocks.every(isDrawable)) return null
+    return {
+        ...settings,
+        id: card.id,
+        blocks,
+        typography: effectiveTypography(settings.typography, overrides),
+        theme: effectiveTheme(settings.theme, overrides),
+        align: overrides?.align ?? 'justify',
+    }
+}
+
+/**
+ * Flatten inline content into styled runs; breaks become newlines.
+ */
+function toRuns(inlines: Inline[], style: TextStyle = PLAIN, runs: Run[] = []): Run[] {
+    for (const inline of inlines) {
+        if (inline.type === 'text' || inline.type === 'code') {
+            runs.push({ text: inline.text, style })
+        } else if (inline.type === 'break') {
+            runs.push({ text: '\n', style })
+        } else {
+            const key = INLINE_STYLES[inline.type]
+            toRuns(inline.children, key ? { ...style, [key]: true } : style, runs)
+        }
+    }
+    return runs
+}
+
+function fontString(style: TextStyle, font: BlockFont): string {
+    const weight = style.bold ? 700 : font.weight
+    const family = style.mark ? font.markFamily : font.family
+    return `${style.italic ? 'italic ' : ''}${weight} ${font.size}px ${family}`
+}
+
+function createAtoms(ctx: Context, runs: Run[], font: BlockFont, maxWidth: number): Atom[] {
+    const atoms: Atom[] = []
+    for (const run of runs) {
+        const runFont = fontString(run.style, font)
+        ctx.font = runFont
+        const tokens = run.text.match(ATOM_REGEX) ?? []
+        const first = atoms.length
+        for (const token of tokens) {
+            const hardBreak = token === '\n'
+            const space = !hardBreak && /^\s+$/.test(token)
+            const text = space ? ' ' : token
+            const width = hardBreak ? 0 : ctx.measureText(text).width
+            // Words wider than the line break anywhere, like `word-break: break-word`
+            const pieces = !hardBreak && !space && width > maxWidth ? Array.from(text) : [text]
+            for (const piece of pieces) {
+                atoms.push({
+                    text: piece,
+                    style: run.style,
+                    font: runFont,
+                    width: pieces.length > 1 ? ctx.measureText(piece).width : width,
+                    padLeft: 0,
+                    padRight: 0,
+                    space,
+                    hardBreak,
+                })
+            }
+        }
+        if (run.style.mark && atoms.length > first) {
+            atoms[first].padLeft = MARK_PADDING_PX
+            atoms[atoms.length - 1].padRight = MARK_PADDING_PX
+        }
+    }
+    return atoms
+}
+
+const atomWidth = (atom: Atom) => atom.width + atom.padLeft + atom.padRight
+
+function lineWidth(atoms: Atom[]): number {
+    return atoms.reduce((sum, atom) => sum + atomWidth(atom), 0)
+}
+
+function trimTrailingSpaces(atoms: Atom[]): Atom[] {
+    let end = atoms.length
+    while (end > 0 && atoms[end - 1].space) end--
+    return atoms.slice(0, end)
+}
+
+function breakLines(atoms: Atom[], maxWidth: number): Line[] {
+    const lines: Line[] = []
+    let current: Atom[] = []
+
+    const pushLine = (justify: boolean) => {
+        const trimmed = trimTrailingSpaces(current)
+        lines.push({ atoms: trimmed, width: lineWidth(trimmed), justify })
+        current = []
+    }
+
+    for (const atom of atoms) {
+        if (atom.hardBreak) {
+            pushLine(false)
+            continue
+        }
+        // Spaces collapse at the start of a wrapped line
+        if (atom.space && current.length === 0) continue
+
+        if (atom.space || current.length === 0 || lineWidth(current) + atomWidth(atom) <= maxWidth + 0.01) {
+            current.push(atom)
+            continue
+        }
+
+        const carried: Atom[] = []
+        if (NO_LINE_START.test(atom.text) && current.length > 1) carried.push(current.pop() as Atom)
+        while (current.length > 1 && NO_LINE_END.test(current[current.length - 1].text)) {
+            carried.unshift(current.pop() as Atom)
+        }
+        pushLine(true)
+        current = [...carried, atom]
+    }
+
+    if (current.length > 0 || lines.length === 0) pushLine(false)
+    return lines
+}
+
+function layoutText(ctx: Context, inlines: Inline[], font: BlockFont, maxWidth: number): Line[] {
+    return breakLines(createAtoms(ctx, toRuns(inlines), font, maxWidth), maxWidth)
+}
+
+function paintLines(ctx: Context, lines: Line[], font: BlockFont, theme: Theme, align: CardAlign, x: number, top: number, maxWidth: number): void {
+    const lineHeightPx = font.size * font.lineHeight
+    ctx.font = fontString(PLAIN, font)
+    const strut = ctx.measureText('字')
+    const ascent = strut.fontBoundingBoxAscent
+    const contentHeight = ascent + strut.fontBoundingBoxDescent
+
+    lines.forEach((line, lineIndex) => {
+        // Half-leading above the strut, as CSS places a line box's baseline
+        const baseline = top + lineIndex * lineHeightPx + (lineHeightPx - contentHeight) / 2 + ascent
+        const gaps = line.atoms.length - 1
+        const slack = Math.max(0, maxWidth - line.width)
+        const extra = align === 'justify' && line.justify && gaps > 0 ? slack / gaps : 0
+        const offset = align === 'center' ? slack / 2 : align === 'right' ? slack : 0
+
+        const positions: number[] = []
+        let cursor = x + offset
+        for (const atom of line.atoms) {
+            positions.push(cursor)
+            cursor += atomWidth(atom) + extra
+        }
+
+        // Highlights sit behind the text of the whole line
+        line.atoms.forEach((atom, i) => {
+            if (!atom.style.mark) return
+            const spans = line.atoms[i + 1]?.style.mark ? extra : 0
+            ctx.fillStyle = theme.markColor
+            ctx.fillRect(positions[i], baseline - ascent + contentHeight * 0.6, atomWidth(atom) + spans, contentHeight * 0.4)
+        })
+
+        line.atoms.forEach((atom, i) => {
+            const color = atom.style.bold ? theme.strongColor : font.color
+            ctx.font = atom.font
+            ctx.fillStyle = color
+            ctx.fillText(atom.text, positions[i] + atom.padLeft, baseline)
+            if (atom.style.underline) {
+                const spans = line.atoms[i + 1]?.style.underline ? extra : 0
+                ctx.fillRect(positions[i], baseline + UNDERLINE_OFFSET_PX, atomWidth(atom) + spans, Math.max(1, font.size / 16))
+            }
+        })
+    })
+}
+
+function drawRoundedImage(ctx: Context, image: ImageBitmap, x: number, y: number, width: number, height: number): void {
+    ctx.save()
+    ctx.beginPath()
+    ctx.roundRect(x, y, width, height, IMAGE_RADIUS_PX)
+    ctx.clip()
+    ctx.drawImage(image, x, y, width, height)
+    ctx.restore()
+}
+
+function layoutBoxes(ctx: Context, scene: CardScene, assets: SceneAssets, x: number, width: number): Box[] {
+    const { typography, theme } = scene
+    const base = typography.fontSize
+    const bodyFont: BlockFont = {
+        size: base,
+        weight: 400,
+        family: theme.fontFamily,
+        markFamily: theme.markFontFamily ?? theme.fontFamily,
+        lineHeight: typography.lineHeight,
+        color: theme.textColor,
+    }
+
+    const blocks = scene.blocks.filter(isDrawable)
+    return blocks.map((block, index): Box => {
+        const isFirst = index === 0
+        const isLast = index === blocks.length - 1
+
+        if (block.kind === 'heading') {
+            const style = HEADING_STYLES[block.level]
+            const font: BlockFont = {
+                ...bodyFont,
+                size: base * style.size,
+                weight: style.weight,
+                family: theme.headingFontFamily,
+                markFamily: theme.markFontFamily ?? theme.headingFontFamily,
+                lineHeight: style.lineHeight,
+                color: theme.headingColors[`h${block.level}`],
+            }
+            const lines = layoutText(ctx, block.inlines, font, width)
+            return {
+                marginTop: isFirst ? 0 : font.size * style.marginTop,
+                marginBottom: font.size * style.marginBottom,
+                height: lines.length * font.size * font.lineHeight,
+                paint: top => paintLines(ctx, lines, font, theme, scene.align, x, top, width),
+            }
+        }
+
+        if (block.kind === 'image') {
+            const image = assets.images.get(block.id)
+            if (!image) {
+                // The preview shows the placeholder text when the image is missing
+                const placeholder: Inline = { type: 'text', text: `[IMG:${block.id}]`, start: block.start, end: block.end }
+                const lines = layoutText(ctx, [placeholder], bodyFont, width)
+                return {
+                    marginTop: 0,
+                    marginBottom: 0,
+                    height: lines.length * base * bodyFont.lineHeight,
+                    paint: top => paintLines(ctx, lines, bodyFont, theme, scene.align, x, top, width),
+                }
+            }
+            const imageWidth = width * (scene.imageSizes[block.id] ?? 100) / 100
+            const imageHeight = imageWidth * image.height / Math.max(1, image.width)
+            return {
+                marginTop: base * IMAGE_MARGIN_EM,
+                marginBottom: base * IMAGE_MARGIN_EM,
+                height: imageHeight,
+                paint: top => drawRoundedImage(ctx, image, x + (width - imageWidth) / 2, top, imageWidth, imageHeight),
+            }
+        }
+
+        if (block.kind === 'list') {
+            const indent = base * (block.ordered ? ORDERED_INDENT_EM : BULLET_INDENT_EM)
+            const itemGap = base * LIST_ITEM_MARGIN_EM
+            const items = block.items.map(item => layoutText(ctx, item.inlines, bodyFont, width - indent))
+            const lineHeightPx = base * bodyFont.lineHeight
+            const heights = items.map(lines => lines.length * lineHeightPx)
+            return {
+                marginTop: base * LIST_MARGIN_EM,
+                // The last item's margin collapses into the list's
+                marginBottom: base * Math.max(LIST_MARGIN_EM, LIST_ITEM_MARGIN_EM),
+                height: heights.reduce((sum, h) => sum + h, 0) + itemGap * (items.length - 1),
+                paint: top => {
+                    let itemTop = top
+                    items.forEach((lines, i) => {
+                        ctx.fillStyle = theme.textColor
+                        if (block.ordered) {
+                            ctx.font = fontString(PLAIN, bodyFont)
+                            ctx.textAlign = 'right'
+                            const marker = `${block.startNumber + i}.`
+                            const strut = ctx.measureText('字')
+                            const baseline = itemTop + (lineHeightPx - strut.fontBoundingBoxAscent - strut.fontBoundingBoxDescent) / 2 + strut.fontBoundingBoxAscent
+                            ctx.fillText(marker, x + indent - ctx.measureText(' ').width, baseline)
+                            ctx.textAlign = 'left'
+                        } else {
+                            ctx.save()
+                            ctx.globalAlpha = 0.75
+                            ctx.beginPath()
+                            ctx.arc(x + BULLET_SIZE_PX / 2, itemTop + base * 0.55 + BULLET_SIZE_PX / 2, BULLET_SIZE_PX / 2, 0, Math.PI * 2)
+                            ctx.fill()
+                            ctx.restore()
+                        }
+                        paintLines(ctx, lines, bodyFont, theme, scene.align, x + indent, itemTop, width - indent)
+                        itemTop += heights[i] + itemGap
+                    })
+                },
+            }
+        }
+
+        const lines = layoutText(ctx, block.inlines, bodyFont, width)
+        return {
+            marginTop: 0,
+            // p:last-child has no bottom margin
+            marginBottom: isLast ? 0 : base * typography.paragraphSpacing,
+            height: lines.length * base * bodyFont.lineHeight,
+            paint: top => paintLines(ctx, lines, bodyFont, theme, scene.align, x, top, width),
+        }
+    })
+}
+
+/**
+ * CSS angle (0deg points up, clockwise) to gradient end points across the box.
+ */
+function gradientLine(angle: number, width: number, height: number): [number, number, number, number] {
+    const radians = angle * Math.PI / 180
+    const dx = Math.sin(radians)
+    const dy = -Math.cos(radians)
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+    const cx = width / 2
+    const cy = height / 2
+    return [cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half]
+}
+
+function paintBackground(ctx: Context, theme: Theme, width: number, height: number, textures: Map<string, ImageBitmap>): void {
+    const { color, gradient, texture, grid } = theme.background
+    ctx.fillStyle = color
+    ctx.fillRect(0, 0, width, height)
+
+    if (gradient) {
+        const fill = ctx.createLinearGradient(...gradientLine(gradient.angle, width, height))
+        fill.addColorStop(0, gradient.from)
+        fill.addColorStop(1, gradient.to)
+        ctx.fillStyle = fill
+        ctx.fillRect(0, 0, width, height)
+    }
+
+    const textureImage = texture && textures.get(texture.url)
+    if (texture && textureImage) {
+        // background-size: N% auto, centred, no repeat
+        const drawWidth = width * texture.size / 100
+        const drawHeight = drawWidth * textureImage.height / Math.max(1, textureImage.width)
+        ctx.save()
+        ctx.globalAlpha = texture.opacity
+        ctx.filter = texture.filter ?? 'none'
+        ctx.drawImage(textureImage, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+        ctx.restore()
+    }
+
+    if (grid) {
+        ctx.save()
+        ctx.globalAlpha = grid.opacity
+        ctx.fillStyle = grid.color
+        for (let y = 0; y < height; y += grid.size) ctx.fillRect(0, y, width, 1)
+        for (let x = 0; x < width; x += grid.size) ctx.fillRect(x, 0, 1, height)
+        ctx.restore()
+    }
+}
+
+/**
+ * Paint a card at its canvas size; scale the context beforehand for larger output.
+ */
+export function renderCardScene(ctx: Context, scene: CardScene, assets: SceneAssets): void {
+    const { format, theme, typography } = scene
+    paintBackground(ctx, theme, format.width, format.height, assets.textures)
+
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'alphabetic'
+    ctx.letterSpacing = `${typography.letterSpacing * typography.fontSize}px`
+
+    const contentWidth = getContentBox(format).width
+    const boxes = layoutBoxes(ctx, scene, assets, format.paddingX, contentWidth)
+
+    // Adjacent vertical margins collapse, as between the preview's block elements
+    let y = format.paddingTop
+    let previousMarginBottom = 0
+    boxes.forEach((box, i) => {
+        y += i === 0 ? box.marginTop : Math.max(previousMarginBottom, box.marginTop)
+        box.paint(y)
+        y += box.height
+        previousMarginBottom = box.marginBottom
+    })
+}
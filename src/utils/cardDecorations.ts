@@ -0,0 +1,139 @@
+import type { CanvasFormat } from './canvasFormat'
+
+/**
+ * Card decorations: header (account name/avatar), footer text, page indicator
+ * and watermark drawn around the content of every card. Header and footer
+ * bands take space from the content box, so the splitter paginates with the
+ * format returned by `applyDecorations`.
+ */
+
+export type DecorationAlign = 'left' | 'center' | 'right'
+export type PageNumberPlacement = 'header' | 'footer'
+export type PageNumberStyle = 'plain' | 'padded' | 'pill'
+export type WatermarkPosition = 'center' | 'top-right' | 'bottom-right' | 'tiled'
+
+export interface HeaderDecoration {
+    enabled: boolean
+    name: string
+    // Small data URL, resized on upload
+    avatar?: string
+    align: DecorationAlign
+    fontSize: number
+    color: string
+}
+
+export interface FooterDecoration {
+    enabled: boolean
+    text: string
+    align: DecorationAlign
+    fontSize: number
+    color: string
+}
+
+export interface PageNumberDecoration {
+    enabled: boolean
+    placement: PageNumberPlacement
+    align: DecorationAlign
+    style: PageNumberStyle
+    fontSize: number
+    color: string
+}
+
+export interface WatermarkDecoration {
+    enabled: boolean
+    text: string
+    position: WatermarkPosition
+    fontSize: number
+    color: string
+    opacity: number
+    // Degrees
+    rotation: number
+}
+
+export interface CardDecorations {
+    header: HeaderDecoration
+    footer: FooterDecoration
+    pageNumber: PageNumberDecoration
+    watermark: WatermarkDecoration
+}
+
+export const DEFAULT_DECORATIONS: CardDecorations = {
+    header: { enabled: false, name: '', align: 'left', fontSize: 26, color: '#57534e' },
+    footer: { enabled: false, text: '', align: 'center', fontSize: 22, color: '#a8a29e' },
+    pageNumber: { enabled: false, placement: 'footer', align: 'right', style: 'plain', fontSize: 22, color: '#a8a29e' },
+    watermark: { enabled: false, text: '', position: 'tiled', fontSize: 40, color: '#000000', opacity: 0.08, rotation: -30 },
+}
+
+// Space between a band and the card content
+export const DECORATION_BAND_GAP = 32
+
+const BAND_LINE_HEIGHT = 1.5
+const AVATAR_SIZE_EM = 1.8
+const PILL_HEIGHT_EM = 1.9
+
+export function getAvatarSize(header: HeaderDecoration): number {
+    return Math.round(header.fontSize * AVATAR_SIZE_EM)
+}
+
+function pageNumberHeight(pageNumber: PageNumberDecoration): number {
+    return Math.ceil(pageNumber.fontSize * (pageNumber.style === 'pill' ? PILL_HEIGHT_EM : BAND_LINE_HEIGHT))
+}
+
+function showsPageNumberIn(decorations: CardDecorations, placement: PageNumberPlacement): boolean {
+    return decorations.pageNumber.enabled && decorations.pageNumber.placement === placement
+}
+
+/**
+ * Height of the header band, or 0 when nothing is drawn there.
+ */
+export function getHeaderBandHeight(decorations: CardDecorations): number {
+    const { header } = decorations
+    const heights: number[] = []
+    if (header.enabled) {
+        heights.push(Math.ceil(header.fontSize * BAND_LINE_HEIGHT))
+        if (header.avatar) heights.push(getAvatarSize(header))
+    }
+    if (showsPageNumberIn(decorations, 'header')) heights.push(pageNumberHeight(decorations.pageNumber))
+    return heights.length > 0 ? Math.max(...heights) : 0
+}
+
+/**
+ * Height of the footer band, or 0 when nothing is drawn there.
+ */
+export function getFooterBandHeight(decorations: CardDecorations): number {
+    const heights: number[] = []
+    if (decorations.footer.enabled) heights.push(Math.ceil(decorations.footer.fontSize * BAND_LINE_HEIGHT))
+    if (showsPageNumberIn(decorations, 'footer')) heights.push(pageNumberHeight(decorations.pageNumber))
+    return heights.length > 0 ? Math.max(...heights) : 0
+}
+
+/**
+ * The format cards are laid out in: paddings grow by the header/footer bands,
+ * which are drawn where the original content box begins and ends.
+ */
+export function applyDecorations(format: CanvasFormat, decorations: CardDecorations): CanvasFormat {
+    const header = getHeaderBandHeight(decorations)
+    const footer = getFooterBandHeight(decorations)
+    if (header === 0 && footer === 0) return format
+    return {
+        ...format,
+        paddingTop: format.paddingTop + (header > 0 ? header + DECORATION_BAND_GAP : 0),
+        paddingBottom: format.paddingBottom + (footer > 0 ? footer + DECORATION_BAND_GAP : 0),
+    }
+}
+
+/**
+ * True when any decoration is drawn on the cards.
+ */
+export function hasDecorations(decorations: CardDecorations): boolean {
+    const { header, footer, pageNumber, watermark } = decorations
+    return header.enabled || footer.enabled || pageNumber.enabled || watermark.enabled
+}
+
+export function formatPageNumber(style: PageNumberStyle, number: number, total: number): string {
+    if (style === 'padded') {
+        const width = Math.max(2, String(total).length)
+        return `${String(number).padStart(width, '0')} / ${String(total).padStart(width, '0')}`
+    }
+    return `${number} / ${total}`
+}
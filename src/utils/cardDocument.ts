@@ -0,0 +1,573 @@
+import { parseCardText, type CardOverrides } from './cardOverrides'
+
+/**
+ * Document model of card text: blocks with their inline content, parsed once
+ * and shared by the pagination estimator, the DOM preview, the canvas renderer
+ * and the thumbnails, so what the splitter measures is what gets drawn.
+ *
+ * The dialect is a small markdown: `#`-`###` headings, lists, `>` quotes,
+ * fenced code, GFM tables, `[IMG:id]` placeholders and `@keep` … `@end`
+ * groups that pagination never splits; inline `**bold**`,
+ * `*italic*`, `__underline__`, `==highlight==`, `~~strike~~`, `` `code` ``
+ * and `[links](url)`. Inline markup may span the lines of one paragraph but
+ * never leaves it, and a backslash escapes any ASCII punctuation.
+ *
+ * Every node carries `start`/`end` offsets into the parsed text.
+ */
+
+export interface SourceRange {
+    start: number
+    end: number
+}
+
+export type InlineStyle = 'strong' | 'em' | 'underline' | 'mark' | 'delete'
+
+export type Inline = SourceRange & (
+    | { type: 'text'; text: string }
+    // A line break inside a paragraph
+    | { type: 'break' }
+    | { type: 'code'; text: string }
+    | { type: InlineStyle; children: Inline[] }
+    | { type: 'link'; href: string; children: Inline[] }
+)
+
+export interface ListItem extends SourceRange {
+    inlines: Inline[]
+}
+
+export interface TableCell extends SourceRange {
+    inlines: Inline[]
+}
+
+export type Block = SourceRange & (
+    | { kind: 'paragraph'; inlines: Inline[] }
+    | { kind: 'heading'; level: 1 | 2 | 3; inlines: Inline[] }
+    | { kind: 'image'; id: string }
+    | { kind: 'list'; ordered: boolean; startNumber: number; items: ListItem[] }
+    // Quoted lines, parsed as blocks of their own
+    | { kind: 'blockquote'; blocks: Block[] }
+    // `bodyStart`/`bodyEnd`: the code lines between the fences
+    | { kind: 'code'; info: string; fence: string; text: string; bodyStart: number; bodyEnd: number }
+    // `bodyStart`: the first row after the delimiter row
+    | { kind: 'table'; header: TableCell[]; rows: TableCell[][]; bodyStart: number }
+    // Blocks between `@keep` and `@end` lines, kept on one card
+    | { kind: 'keep'; blocks: Block[] }
+)
+
+// Blocks as laid out: keep-together groups only matter to pagination
+export type ContentBlock = Exclude<Block, { kind: 'keep' }>
+
+export interface CardDocument {
+    // The card's `@card` directive, null when it has none
+    overrides: CardOverrides | null
+    // Card text without the directive
+    body: string
+    // Blocks of the body; offsets point into the card text
+    blocks: Block[]
+}
+
+// Offset in the parsed text of an index in the string being scanned
+type OffsetMap = (index: number) => number
+
+// Not after an escaping backslash
+const IMAGE_PLACEHOLDER = /(?<=(?:^|[^\\])(?:\\\\)*)\[IMG:([a-zA-Z0-9_-]+)\]/g
+const FENCE_OPEN = /^\s{0,3}(`{3,}|~{3,})\s*([^`]*?)\s*$/
+const HEADING = /^(\s*(#{1,3})\s+)(.+?)\s*$/
+const QUOTE_LINE = /^(\s{0,3}>\s?)(.*)$/
+const LIST_ITEM = /^(\s*(?:([-*+])|(\d+)[.)])\s+)(.*)$/
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+const KEEP_OPEN = /^\s*@keep\s*$/
+const KEEP_CLOSE = /^\s*@end\s*$/
+const CARD_DELIMITER = /^[ \t]*---[ \t]*$/gm
+const ESCAPABLE = /[!-/:-@[-`{-~]/
+const WHITESPACE = /\s/
+
+const INLINE_MARKERS: { marker: string; type: InlineStyle }[] = [
+    { marker: '**', type: 'strong' },
+    { marker: '__', type: 'underline' },
+    { marker: '==', type: 'mark' },
+    { marker: '~~', type: 'delete' },
+    { marker: '*', type: 'em' },
+]
+
+// ===== INLINES =====
+
+// End of the code span opening at `index`, after its closing backticks; -1 when unclosed
+function codeSpanEnd(text: string, index: number, to: number): number {
+    let open = index
+    while (open < to && text[open] === '`') open++
+    const fence = text.slice(index, open)
+    let i = open
+    while (i < to) {
+        const close = text.indexOf(fence, i)
+        if (close === -1 || close + fence.length > to) return -1
+        let after = close + fence.length
+        if (text[after] !== '`') return after
+        while (text[after] === '`') after++
+        i = after
+    }
+    return -1
+}
+
+// Closing `marker` for an opener whose content starts at `from`; -1 when there is none
+function findClose(text: string, marker: string, from: number, to: number): number {
+    let j = from
+    while (j < to) {
+        const char = text[j]
+        if (char === '\\') {
+            j += 2
+            continue
+        }
+        if (char === '`') {
+            const end = codeSpanEnd(text, j, to)
+            if (end !== -1) {
+                j = end
+                continue
+            }
+        }
+        if (marker === '*' && text.startsWith('**', j)) {
+            // A nested `**bold**` doesn't close `*italic*`
+            const close = findClose(text, '**', j + 2, to)
+            j = close === -1 ? j + 2 : close + 2
+            continue
+        }
+        // Like markdown, delimiters don't close after whitespace
+        if (text.startsWith(marker, j) && j + marker.length <= to && j > from && !WHITESPACE.test(text[j - 1])) return j
+        j++
+    }
+    return -1
+}
+
+function parseInlineRange(text: string, from: number, to: number, at: OffsetMap): Inline[] {
+    const nodes: Inline[] = []
+    let buffer = ''
+    let bufferStart = from
+    const flush = (end: number) => {
+        if (buffer) nodes.push({ type: 'text', text: buffer, start: at(bufferStart), end: at(end) })
+        buffer = ''
+    }
+
+    let i = from
+    while (i < to) {
+        if (!buffer) bufferStart = i
+        const char = text[i]
+
+        if (char === '\\' && i + 1 < to && ESCAPABLE.test(text[i + 1])) {
+            buffer += text[i + 1]
+            i += 2
+            continue
+        }
+
+        if (char === '\n') {
+            flush(i)
+            nodes.push({ type: 'break', start: at(i), end: at(i + 1) })
+            i++
+            // Indentation of the next line is not content
+            while (i < to && (text[i] === ' ' || text[i] === '\t')) i++
+            continue
+        }
+
+        if (char === '`') {
+            const end = codeSpanEnd(text, i, to)
+            if (end !== -1) {
+                let fence = 0
+                while (text[i + fence] === '`') fence++
+                flush(i)
+                nodes.push({ type: 'code', text: text.slice(i + fence, end - fence).trim(), start: at(i), end: at(end) })
+                i = end
+                continue
+            }
+        }
+
+        if (char === '[') {
+            const labelEnd = text.indexOf(']', i + 1)
+            const hrefEnd = text[labelEnd + 1] === '(' ? text.indexOf(')', labelEnd + 2) : -1
+            if (labelEnd > i + 1 && hrefEnd !== -1 && hrefEnd < to && !text.slice(i, hrefEnd).includes('\n')) {
+                flush(i)
+                nodes.push({
+                    type: 'link',
+                    href: text.slice(labelEnd + 2, hrefEnd).trim(),
+                    children: parseInlineRange(text, i + 1, labelEnd, at),
+                    start: at(i),
+                    end: at(hrefEnd + 1),
+                })
+                i = hrefEnd + 1
+                continue
+            }
+        }
+
+        const inline = INLINE_MARKERS.find(({ marker }) => text.startsWith(marker, i))
+        if (inline) {
+            const contentStart = i + inline.marker.length
+            // Nor open before whitespace
+            const close = contentStart < to && !WHITESPACE.test(text[contentStart])
+                ? findClose(text, inline.marker, contentStart, to)
+                : -1
+            if (close !== -1) {
+                flush(i)
+                nodes.push({
+                    type: inline.type,
+                    children: parseInlineRange(text, contentStart, close, at),
+                    start: at(i),
+                    end: at(close + inline.marker.length),
+                })
+                i = close + inline.marker.length
+                continue
+            }
+            // An unmatched run of markers stays text as a whole
+            buffer += inline.marker
+            i = contentStart
+            continue
+        }
+
+        buffer += char
+        i++
+    }
+
+    flush(to)
+    return nodes
+}
+
+/**
+ * Inline content of a single piece of text (a template's quote, item or note).
+ */
+export function parseInlines(text: string): Inline[] {
+    return parseInlineRange(text, 0, text.length, i => i)
+}
+
+/**
+ * What inline content reads as, markup removed; breaks become newlines.
+ */
+export function inlineText(inlines: Inline[]): string {
+    return inlines.map(inline => {
+        switch (inline.type) {
+            case 'text':
+            case 'code':
+                return inline.text
+            case 'break':
+                return '\n'
+            default:
+                return inlineText(inline.children)
+        }
+    }).join('')
+}
+
+/**
+ * Plain text of text with inline markup.
+ */
+export function markupText(text: string): string {
+    return inlineText(parseInlines(text))
+}
+
+// ===== BLOCKS =====
+
+function isFenceClose(line: string, fence: string): boolean {
+    const trimmed = line.trim()
+    return trimmed.length >= fence.length && trimmed[0] === fence[0] && /^(`+|~+)$/.test(trimmed)
+}
+
+// Cell ranges of a table row, trimmed, without the outer pipes
+function tableCellRanges(line: string): [number, number][] {
+    let from = 0
+    let to = line.length
+    while (from < to && WHITESPACE.test(line[from])) from++
+    while (to > from && WHITESPACE.test(line[to - 1])) to--
+    if (line[from] === '|') from++
+    if (to > from && line[to - 1] === '|' && line[to - 2] !== '\\') to--
+
+    const cells: [number, number][] = []
+    let cellStart = from
+    for (let i = from; i <= to; i++) {
+        if (i < to && (line[i] !== '|' || line[i - 1] === '\\')) continue
+        let start = cellStart
+        let end = i
+        while (start < end && WHITESPACE.test(line[start])) start++
+        while (end > start && WHITESPACE.test(line[end - 1])) end--
+        cells.push([start, end])
+        cellStart = i + 1
+    }
+    return cells
+}
+
+// A GFM table starts with a header row and a delimiter row of the same width
+function isTableStart(lines: string[], index: number): boolean {
+    const header = lines[index]
+    const delimiter = lines[index + 1]
+    if (!header?.includes('|') || delimiter === undefined || !TABLE_DELIMITER.test(delimiter) || !delimiter.includes('-')) return false
+    return tableCellRanges(header).length === tableCellRanges(delimiter).length
+}
+
+function parseLines(text: string, at: OffsetMap): Block[] {
+    const blocks: Block[] = []
+    const lines = text.split('\n')
+    const offsets: number[] = []
+    let offset = 0
+    for (const line of lines) {
+        offsets.push(offset)
+        offset += line.length + 1
+    }
+    const lineEnd = (i: number) => offsets[i] + lines[i].length
+
+    let paragraph: SourceRange | null = null
+    let list: { ordered: boolean; startNumber: number; start: number; items: SourceRange[] } | null = null
+
+    const inlinesOf = (range: SourceRange) => {
+        let { start, end } = range
+        while (start < end && WHITESPACE.test(text[start])) start++
+        while (end > start && WHITESPACE.test(text[end - 1])) end--
+        return parseInlineRange(text, start, end, at)
+    }
+    const flush = () => {
+        if (paragraph && text.slice(paragraph.start, paragraph.end).trim()) {
+            blocks.push({ kind: 'paragraph', inlines: inlinesOf(paragraph), start: at(paragraph.start), end: at(paragraph.end) })
+        }
+        if (list) {
+            const items = list.items.map(item => ({ inlines: inlinesOf(item), start: at(item.start), end: at(item.end) }))
+            blocks.push({
+                kind: 'list',
+                ordered: list.ordered,
+                startNumber: list.startNumber,
+                items,
+                start: at(list.start),
+                end: at(list.items[list.items.length - 1].end),
+            })
+        }
+        paragraph = null
+        list = null
+    }
+    const extendParagraph = (start: number, end: number) => {
+        if (start >= end) return
+        if (paragraph) paragraph.end = end
+        else paragraph = { start, end }
+    }
+
+    let i = 0
+    while (i < lines.length) {
+        const line = lines[i]
+
+        const fence = FENCE_OPEN.exec(line)
+        if (fence) {
+            flush()
+            const open = i++
+            while (i < lines.length && !isFenceClose(lines[i], fence[1])) i++
+            const closed = i < lines.length
+            const bodyStart = open + 1 < lines.length ? offsets[open + 1] : text.length
+            const bodyEnd = closed ? offsets[i] : text.length
+            blocks.push({
+                kind: 'code',
+                info: fence[2],
+                fence: fence[1],
+                text: text.slice(bodyStart, bodyEnd).replace(/\n$/, ''),
+                bodyStart: at(bodyStart),
+                bodyEnd: at(bodyEnd),
+                start: at(offsets[open]),
+                end: at(closed ? lineEnd(i) : text.length),
+            })
+            i++
+            continue
+        }
+
+        if (!line.trim()) {
+            flush()
+            i++
+            continue
+        }
+
+        if (KEEP_OPEN.test(line)) {
+            flush()
+            const open = i++
+            while (i < lines.length && !KEEP_CLOSE.test(lines[i])) i++
+            const closed = i < lines.length
+            const innerStart = open + 1 < lines.length ? offsets[open + 1] : text.length
+            const innerEnd = closed ? offsets[i] : text.length
+            blocks.push({
+                kind: 'keep',
+                blocks: parseLines(text.slice(innerStart, innerEnd), k => at(innerStart + k)),
+                start: at(offsets[open]),
+                end: at(closed ? lineEnd(i) : text.length),
+            })
+            i++
+            continue
+        }
+
+        // An `@end` left behind when a group was split by hand
+        if (KEEP_CLOSE.test(line)) {
+            flush()
+            i++
+            continue
+        }
+
+        const heading = HEADING.exec(line)
+        if (heading) {
+            flush()
+            const contentStart = offsets[i] + heading[1].length
+            blocks.push({
+                kind: 'heading',
+                level: heading[2].length as 1 | 2 | 3,
+                inlines: parseInlineRange(text, contentStart, contentStart + heading[3].length, at),
+                start: at(offsets[i]),
+                end: at(lineEnd(i)),
+            })
+            i++
+            continue
+        }
+
+        if (QUOTE_LINE.test(line)) {
+            flush()
+            // Quoted lines, plus unmarked lines that lazily continue the quote;
+            // `positions` maps the stripped text back to this one
+            const start = offsets[i]
+            let stripped = ''
+            const positions: number[] = []
+            while (i < lines.length && lines[i].trim() && !FENCE_OPEN.test(lines[i])) {
+                if (stripped) {
+                    positions.push(offsets[i] - 1)
+                    stripped += '\n'
+                }
+                const prefix = QUOTE_LINE.exec(lines[i])?.[1].length ?? 0
+                for (let k = prefix; k < lines[i].length; k++) positions.push(offsets[i] + k)
+                stripped += lines[i].slice(prefix)
+                i++
+            }
+            const end = lineEnd(i - 1)
+            positions.push(end)
+            blocks.push({ kind: 'blockquote', blocks: parseLines(stripped, k => at(positions[k])), start: at(start), end: at(end) })
+            continue
+        }
+
+        if (isTableStart(lines, i)) {
+            flush()
+            const start = i
+            const rowOf = (row: number): TableCell[] => tableCellRanges(lines[row]).map(([from, to]) => ({
+                inlines: parseInlineRange(text, offsets[row] + from, offsets[row] + to, at),
+                start: at(offsets[row] + from),
+                end: at(offsets[row] + to),
+            }))
+            const header = rowOf(start)
+            const rows: TableCell[][] = []
+            i += 2
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) rows.push(rowOf(i++))
+            blocks.push({
+                kind: 'table',
+                header,
+                rows,
+                bodyStart: at(offsets[start + 2] ?? text.length),
+                start: at(offsets[start]),
+                end: at(lineEnd(i - 1)),
+            })
+            continue
+        }
+
+        const item = LIST_ITEM.exec(line)
+        if (item) {
+            const ordered = item[3] !== undefined
+            if (!list || list.ordered !== ordered) {
+                flush()
+                list = { ordered, startNumber: ordered ? Number(item[3]) : 1, start: offsets[i], items: [] }
+            }
+            list.items.push({ start: offsets[i] + item[1].length, end: lineEnd(i) })
+        } else if (list) {
+            // Continuation of the last item
+            list.items[list.items.length - 1].end = lineEnd(i)
+        } else {
+            // Image placeholders stand alone, splitting the paragraph around them
+            let cursor = offsets[i]
+            for (const match of line.matchAll(IMAGE_PLACEHOLDER)) {
+                const matchStart = offsets[i] + match.index
+                extendParagraph(cursor, matchStart)
+                flush()
+                cursor = matchStart + match[0].length
+                blocks.push({ kind: 'image', id: match[1], start: at(matchStart), end: at(cursor) })
+            }
+            extendParagraph(cursor, lineEnd(i))
+        }
+        i++
+    }
+
+    flush()
+    return blocks
+}
+
+/**
+ * Blocks of a piece of card text; offsets point into `text`.
+ */
+export function parseBlocks(text: string): Block[] {
+    return parseLines(text, i => i)
+}
+
+/**
+ * Blocks with keep-together groups replaced by their content.
+ */
+export function flattenBlocks(blocks: Block[]): ContentBlock[] {
+    return blocks.flatMap(block => (block.kind === 'keep' ? flattenBlocks(block.blocks) : [block]))
+}
+
+// Fenced code blocks, quoted ones included
+function codeBlocks(blocks: Block[]): Block[] {
+    return blocks.flatMap(block => {
+        if (block.kind === 'code') return [block]
+        return block.kind === 'keep' || block.kind === 'blockquote' ? codeBlocks(block.blocks) : []
+    })
+}
+
+/**
+ * Ranges of the `---` lines that separate cards, without their line breaks.
+ * A `---` inside fenced code is code, not a delimiter.
+ */
+export function findCardDelimiters(text: string): SourceRange[] {
+    const code = codeBlocks(parseBlocks(text))
+    const delimiters: SourceRange[] = []
+    for (const match of text.matchAll(CARD_DELIMITER)) {
+        const start = match.index
+        if (code.some(block => start > block.start && start < block.end)) continue
+        delimiters.push({ start, end: start + match[0].length })
+    }
+    return delimiters
+}
+
+/**
+ * What a block reads as, for previews and character counts.
+ */
+export function blockText(block: Block): string {
+    switch (block.kind) {
+        case 'paragraph':
+        case 'heading':
+            return inlineText(block.inlines)
+        case 'image':
+            return ''
+        case 'list':
+            return block.items.map(item => inlineText(item.inlines)).join('\n')
+        case 'blockquote':
+        case 'keep':
+            return block.blocks.map(blockText).filter(Boolean).join('\n')
+        case 'code':
+            return block.text
+        case 'table':
+            return [block.header, ...block.rows].map(row => row.map(cell => inlineText(cell.inlines)).join(' ')).join('\n')
+    }
+}
+
+// ===== CARDS =====
+
+// Cards are parsed again and again by the estimator, preview and thumbnails
+const DOCUMENT_CACHE_LIMIT = 200
+const documentCache = new Map<string, CardDocument>()
+
+/**
+ * A card's directive and blocks. Results are cached by text and shared
+ * between callers, so they must not be mutated.
+ */
+export function parseCardDocument(text: string): CardDocument {
+    const cached = documentCache.get(text)
+    if (cached) return cached
+
+    const { overrides, body } = parseCardText(text)
+    const bodyStart = text.length - body.length
+    const document: CardDocument = { overrides, body, blocks: parseLines(body, i => bodyStart + i) }
+
+    documentCache.set(text, document)
+    if (documentCache.size > DOCUMENT_CACHE_LIMIT) {
+        documentCache.delete(documentCache.keys().next().value as string)
+    }
+    return document
+}
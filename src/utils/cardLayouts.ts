@@ -0,0 +1,174 @@
+import { blockText, inlineText, parseBlocks, parseInlines, type Block, type Inline, type ListItem } from './cardDocument'
+
+/**
+ * Layout templates for content cards. A card is a plain top-aligned flow by
+ * default; `layout=` in its `@card` directive picks a template, and cards
+ * whose whole content fits a template's shape pick it automatically.
+ */
+
+export type CardLayout = 'flow' | 'quote' | 'checklist' | 'highlight'
+
+export const CARD_LAYOUT_LABELS: Record<CardLayout, string> = {
+    flow: '正文',
+    quote: '金句',
+    checklist: '清单',
+    highlight: '划重点',
+}
+
+export interface ChecklistItem {
+    inlines: Inline[]
+    // Task items (`- [x]`) show a tick; numbered items leave it undefined
+    checked?: boolean
+}
+
+export type LayoutContent =
+    | { layout: 'flow'; blocks: Block[] }
+    | { layout: 'quote'; blocks: Block[]; attribution?: Inline[] }
+    | { layout: 'checklist'; title?: Inline[]; items: ChecklistItem[] }
+    | { layout: 'highlight'; label?: Inline[]; sentence: Inline[]; note?: Block[] }
+
+// Template sizes in em of the card font size (index.css `.card-layout-*`)
+export const QUOTE_TEXT_EM = 1.3
+export const QUOTE_MARK_EM = 3
+export const ATTRIBUTION_EM = 0.8
+export const CHECKLIST_NUMBER_EM = 2.2
+export const CHECKLIST_ITEM_GAP_EM = 0.9
+export const HIGHLIGHT_LABEL_EM = 0.75
+export const HIGHLIGHT_TEXT_EM = 1.5
+export const HIGHLIGHT_LINE_HEIGHT = 1.5
+
+// The signature line under a quote; not card markup, so not the parser's
+const ATTRIBUTION_LINE = /^\s*(?:——|—|--)\s*(\S.*)$/
+// Leads a list item's text
+const TASK_MARKER = /^\[([ xX])\]\s+/
+
+function hasImage(blocks: Block[]): boolean {
+    return blocks.some(block => block.kind === 'image' || ((block.kind === 'blockquote' || block.kind === 'keep') && hasImage(block.blocks)))
+}
+
+// A quote and the attribution line closing it
+function splitAttribution(content: string): { blocks: Block[]; attribution?: Inline[] } {
+    const lastLine = content.lastIndexOf('\n')
+    const attribution = lastLine === -1 ? null : ATTRIBUTION_LINE.exec(content.slice(lastLine + 1))
+    if (!attribution) return { blocks: parseBlocks(content) }
+    return { blocks: parseBlocks(content.slice(0, lastLine)), attribution: parseInlines(attribution[1]) }
+}
+
+// Inline content of a block; blocks without any read as their plain text
+function blockInlines(block: Block): Inline[] {
+    if (block.kind === 'paragraph' || block.kind === 'heading') return block.inlines
+    return [{ type: 'text', text: blockText(block), start: block.start, end: block.end }]
+}
+
+// Inline content split at its line breaks, blank lines dropped
+function inlineLines(inlines: Inline[]): Inline[][] {
+    const lines: Inline[][] = [[]]
+    for (const inline of inlines) {
+        if (inline.type === 'break') lines.push([])
+        else lines[lines.length - 1].push(inline)
+    }
+    return lines.filter(line => inlineText(line).trim())
+}
+
+function parseItem(item: ListItem, ordered: boolean): ChecklistItem | null {
+    const [first, ...rest] = item.inlines
+    const task = first?.type === 'text' ? TASK_MARKER.exec(first.text) : null
+    if (!task) return ordered ? { inlines: item.inlines } : null
+    const text = first.type === 'text' ? first.text.slice(task[0].length) : ''
+    const inlines: Inline[] = text ? [{ type: 'text', text, start: first.start + task[0].length, end: first.end }, ...rest] : rest
+    return { inlines, checked: task[1] !== ' ' }
+}
+
+// Checklist items of a block: every line of it when it isn't a numbered or task list
+function checklistItems(block: Block): { items: ChecklistItem[]; fits: boolean } {
+    if (block.kind === 'list') {
+        const parsed = block.items.map(item => parseItem(item, block.ordered))
+        return {
+            items: parsed.map((item, i) => item ?? { inlines: block.items[i].inlines }),
+            fits: parsed.every(item => item !== null),
+        }
+    }
+    return { items: inlineLines(blockInlines(block)).map(inlines => ({ inlines })), fits: false }
+}
+
+// A paragraph that is one `==highlight==` as a whole
+function highlightedSentence(block: Block | undefined): Inline[] | null {
+    if (block?.kind !== 'paragraph' || block.inlines.length !== 1) return null
+    const [inline] = block.inlines
+    return inline.type === 'mark' ? inline.children : null
+}
+
+/**
+ * The template a card's content fits, or 'flow'. Only whole-card shapes
+ * count: a lone blockquote (with an optional `—— attribution`), a numbered or
+ * task list under an optional heading, or a fully highlighted sentence under
+ * an optional heading with at most one note paragraph.
+ */
+export function detectCardLayout(body: string): CardLayout {
+    const content = body.trim()
+    const blocks = parseBlocks(content)
+    if (blocks.length === 0 || hasImage(blocks)) return 'flow'
+
+    const quote = splitAttribution(content).blocks
+    if (quote.length === 1 && quote[0].kind === 'blockquote') return 'quote'
+
+    const listBlocks = blocks[0].kind === 'heading' ? blocks.slice(1) : blocks
+    const lists = listBlocks.map(checklistItems)
+    const itemCount = lists.reduce((sum, list) => sum + list.items.length, 0)
+    if (listBlocks.every(block => block.kind === 'list') && lists.every(list => list.fits) && itemCount >= 2) return 'checklist'
+
+    const sentenceIndex = blocks[0].kind === 'heading' ? 1 : 0
+    if (highlightedSentence(blocks[sentenceIndex]) && blocks.length - sentenceIndex <= 2) return 'highlight'
+
+    return 'flow'
+}
+
+/**
+ * Pull a card's content apart for a template. Content that doesn't have the
+ * template's shape is still shown: all blocks become the quote, all lines the
+ * items, and the first block becomes the highlighted sentence.
+ */
+export function parseLayoutContent(body: string, layout: CardLayout): LayoutContent {
+    const content = body.trim()
+
+    if (layout === 'quote') {
+        const { blocks, attribution } = splitAttribution(content)
+        return {
+            layout,
+            blocks: blocks.flatMap(block => (block.kind === 'blockquote' ? block.blocks : [block])),
+            attribution,
+        }
+    }
+
+    const blocks = parseBlocks(content)
+
+    if (layout === 'checklist') {
+        const heading = blocks[0]?.kind === 'heading' ? blocks[0] : null
+        const itemBlocks = heading ? blocks.slice(1) : blocks
+        return {
+            layout,
+            title: heading?.inlines,
+            items: itemBlocks.flatMap(block => checklistItems(block).items),
+        }
+    }
+
+    if (layout === 'highlight') {
+        const heading = blocks.length > 1 && blocks[0].kind === 'heading' ? blocks[0] : null
+        const [sentence, ...note] = heading ? blocks.slice(1) : blocks
+        return {
+            layout,
+            label: heading?.inlines,
+            sentence: sentence ? highlightedSentence(sentence) ?? blockInlines(sentence) : [],
+            note: note.length > 0 ? note : undefined,
+        }
+    }
+
+    return { layout: 'flow', blocks }
+}
+
+/**
+ * Template of a card: the directive's choice, otherwise the detected one.
+ */
+export function resolveCardLayout(body: string, layout?: CardLayout): CardLayout {
+    return layout ?? detectCardLayout(body)
+}
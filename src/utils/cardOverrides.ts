@@ -0,0 +1,164 @@
+import type { Typography } from './splitToCards'
+import { BUILT_IN_THEMES, type Theme } from './theme'
+import { CARD_LAYOUT_LABELS, type CardLayout } from './cardLayouts'
+
+/**
+ * Per-card overrides of the project look, written as a directive on the first
+ * line of a card (right after its `---`):
+ *
+ *     @card font-size=44 align=center background=ink layout=quote
+ *
+ * The directive is part of the source text, so it survives saving, undo and
+ * bundles; the preview, estimator and exporters strip it and apply it.
+ */
+
+export type CardAlign = 'justify' | 'left' | 'center' | 'right'
+
+export interface CardOverrides {
+    fontSize?: number
+    lineHeight?: number
+    paragraphSpacing?: number
+    letterSpacing?: number
+    align?: CardAlign
+    // A built-in theme id (its background and colours) or a CSS colour
+    background?: string
+    // Layout template; detected from the content when unset
+    layout?: CardLayout
+}
+
+export const CARD_ALIGN_LABELS: Record<CardAlign, string> = {
+    justify: '两端',
+    left: '左对齐',
+    center: '居中',
+    right: '右对齐',
+}
+
+// Same ranges as the project typography controls
+export const TYPOGRAPHY_RANGES: Record<keyof Typography, { min: number; max: number; step: number }> = {
+    fontSize: { min: 20, max: 60, step: 2 },
+    lineHeight: { min: 1.2, max: 2.5, step: 0.1 },
+    paragraphSpacing: { min: 0.5, max: 3, step: 0.1 },
+    letterSpacing: { min: 0, max: 0.12, step: 0.01 },
+}
+
+const DIRECTIVE_REGEX = /^[ \t]*@card\b(.*)$/
+
+// Directive key -> override field
+const TYPOGRAPHY_KEYS: Record<string, keyof Typography> = {
+    'font-size': 'fontSize',
+    'line-height': 'lineHeight',
+    'paragraph-spacing': 'paragraphSpacing',
+    'letter-spacing': 'letterSpacing',
+}
+
+const CSS_COLOR_REGEX = /^(#[0-9a-fA-F]{3,8}|(rgb|rgba|hsl|hsla)\([^)]*\))$/
+
+function clampTypography(key: keyof Typography, value: number): number {
+    const { min, max } = TYPOGRAPHY_RANGES[key]
+    return Math.min(max, Math.max(min, value))
+}
+
+function isCardAlign(value: string): value is CardAlign {
+    return value in CARD_ALIGN_LABELS
+}
+
+function isCardLayout(value: string): value is CardLayout {
+    return value in CARD_LAYOUT_LABELS
+}
+
+function isBackground(value: string): boolean {
+    return CSS_COLOR_REGEX.test(value) || BUILT_IN_THEMES.some(theme => theme.id === value)
+}
+
+function parseDirective(args: string): CardOverrides {
+    const overrides: CardOverrides = {}
+    for (const token of args.trim().split(/\s+/)) {
+        const [key, value] = token.split('=', 2)
+        if (!key || !value) continue
+        const typographyKey = TYPOGRAPHY_KEYS[key]
+        if (typographyKey) {
+            const number = Number(value)
+            if (Number.isFinite(number)) overrides[typographyKey] = clampTypography(typographyKey, number)
+        } else if (key === 'align' && isCardAlign(value)) {
+            overrides.align = value
+        } else if (key === 'background' && isBackground(value)) {
+            overrides.background = value
+        } else if (key === 'layout' && isCardLayout(value)) {
+            overrides.layout = value
+        }
+    }
+    return overrides
+}
+
+/**
+ * Split a card's text into its directive and the content that is rendered.
+ * `overrides` is null when the card has no directive.
+ */
+export function parseCardText(text: string): { overrides: CardOverrides | null; body: string } {
+    const trimmed = text.trimStart()
+    const lineEnd = trimmed.indexOf('\n')
+    const firstLine = lineEnd === -1 ? trimmed : trimmed.slice(0, lineEnd)
+    const match = DIRECTIVE_REGEX.exec(firstLine)
+    if (!match) return { overrides: null, body: text }
+    return {
+        overrides: parseDirective(match[1]),
+        body: lineEnd === -1 ? '' : trimmed.slice(lineEnd + 1),
+    }
+}
+
+export function hasCardDirective(text: string): boolean {
+    return parseCardText(text).overrides !== null
+}
+
+export function formatCardDirective(overrides: CardOverrides): string {
+    const args: string[] = []
+    for (const [key, field] of Object.entries(TYPOGRAPHY_KEYS)) {
+        const value = overrides[field]
+        if (value !== undefined) args.push(`${key}=${+value.toFixed(2)}`)
+    }
+    if (overrides.align) args.push(`align=${overrides.align}`)
+    if (overrides.background) args.push(`background=${overrides.background}`)
+    if (overrides.layout) args.push(`layout=${overrides.layout}`)
+    return args.length > 0 ? `@card ${args.join(' ')}` : ''
+}
+
+/**
+ * Replace a card's directive; empty overrides remove it.
+ */
+export function setCardOverrides(text: string, overrides: CardOverrides): string {
+    const { body } = parseCardText(text)
+    const directive = formatCardDirective(overrides)
+    const content = body.trim()
+    if (!directive) return content
+    return content ? `${directive}\n${content}` : directive
+}
+
+export function effectiveTypography(typography: Typography, overrides: CardOverrides | null): Typography {
+    if (!overrides) return typography
+    return {
+        fontSize: overrides.fontSize ?? typography.fontSize,
+        lineHeight: overrides.lineHeight ?? typography.lineHeight,
+        paragraphSpacing: overrides.paragraphSpacing ?? typography.paragraphSpacing,
+        letterSpacing: overrides.letterSpacing ?? typography.letterSpacing,
+    }
+}
+
+/**
+ * Theme of a card with a background override. A theme id brings that theme's
+ * colours along, so text stays readable on a dark background; the project's
+ * fonts are kept either way.
+ */
+export function effectiveTheme(theme: Theme, overrides: CardOverrides | null): Theme {
+    const background = overrides?.background
+    if (!background) return theme
+    const source = BUILT_IN_THEMES.find(t => t.id === background)
+    if (!source) return { ...theme, background: { color: background } }
+    return {
+        ...theme,
+        background: source.background,
+        textColor: source.textColor,
+        headingColors: source.headingColors,
+        markColor: source.markColor,
+        strongColor: source.strongColor,
+    }
+}
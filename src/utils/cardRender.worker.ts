@@ -0,0 +1,66 @@
+import { renderCardScene, type SceneAssets } from './canvasRenderer'
+import type { WorkerFontSource, WorkerRequest, WorkerResponse } from './workerRenderer'
+
+/**
+ * Export worker: paints card scenes on an OffscreenCanvas, off the main thread.
+ */
+
+const assets: SceneAssets = { images: new Map(), textures: new Map() }
+// WorkerGlobalScope.fonts; the DOM typings only declare document.fonts
+const workerFonts = (self as unknown as { fonts: FontFaceSet }).fonts
+
+function respond(response: WorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(response, { transfer })
+}
+
+async function loadFont(font: WorkerFontSource): Promise<boolean> {
+    try {
+        const source = typeof font.source === 'string' ? `url("${font.source}")` : font.source
+        const face = new FontFace(font.family, source, { weight: font.weight })
+        await face.load()
+        workerFonts.add(face)
+        return true
+    } catch (error) {
+        console.warn(`Failed to load font ${font.family} ${font.weight}:`, error)
+        return false
+    }
+}
+
+async function loadTexture(url: string): Promise<void> {
+    try {
+        const response = await fetch(url)
+        assets.textures.set(url, await createImageBitmap(await response.blob()))
+    } catch (error) {
+        console.warn(`Failed to load texture ${url}:`, error)
+    }
+}
+
+async function setup(request: Extract<WorkerRequest, { type: 'setup' }>): Promise<void> {
+    request.images.forEach(({ id, bitmap }) => assets.images.set(id, bitmap))
+    const [loaded] = await Promise.all([
+        Promise.all(request.fonts.map(loadFont)),
+        Promise.all(request.textures.map(loadTexture)),
+    ])
+    const failedFonts = request.fonts.filter((_, i) => !loaded[i]).map(font => font.family)
+    respond({ type: 'ready', failedFonts: Array.from(new Set(failedFonts)) })
+}
+
+function render({ requestId, scene, scale }: Extract<WorkerRequest, { type: 'render' }>): void {
+    try {
+        const canvas = new OffscreenCanvas(Math.round(scene.format.width * scale), Math.round(scene.format.height * scale))
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Canvas unavailable')
+        ctx.scale(scale, scale)
+        renderCardScene(ctx, scene, assets)
+        const bitmap = canvas.transferToImageBitmap()
+        respond({ type: 'rendered', requestId, bitmap }, [bitmap])
+    } catch (error) {
+        respond({ type: 'failed', requestId, message: error instanceof Error ? error.message : String(error) })
+    }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data
+    if (request.type === 'setup') setup(request)
+    else render(request)
+}
@@ -0,0 +1,39 @@
+/**
+ * Cover card: a structured first image placed in front of the content cards
+ * and exported as `card_00`.
+ */
+
+export type CoverLayout = 'centered' | 'bold' | 'hero' | 'magazine'
+
+export interface CoverSettings {
+    enabled: boolean
+    layout: CoverLayout
+    title: string
+    subtitle: string
+    author: string
+    seriesTag: string
+    // Image ID from the project's images map
+    heroImageId?: string
+}
+
+// Shared by the preview selection and the `card-export-*` element id
+export const COVER_CARD_ID = 'cover'
+
+export const COVER_LAYOUTS: CoverLayout[] = ['centered', 'bold', 'hero', 'magazine']
+
+export const COVER_LAYOUT_LABELS: Record<CoverLayout, string> = {
+    centered: '居中',
+    bold: '大字',
+    hero: '头图',
+    magazine: '杂志',
+}
+
+export const DEFAULT_COVER: CoverSettings = {
+    enabled: false,
+    layout: 'centered',
+    title: '',
+    subtitle: '',
+    author: '',
+    seriesTag: '',
+}
+
@@ -1,5 +1,18 @@
 import html2canvas from 'html2canvas'
 import JSZip from 'jszip'
+import { downloadBlob } from './download'
+import { DEFAULT_CANVAS_FORMAT, type CanvasFormat } from './canvasFormat'
+import { createPdf, type PdfPage } from './pdfWriter'
+import { createCardCanvasRenderer, type CanvasRenderInput, type CardCanvasRenderer } from './workerRenderer'
+import { isBuiltInFontFamily } from './fonts'
+import {
+    DEFAULT_EXPORT_SETTINGS,
+    MIME_BY_FORMAT,
+    EXTENSION_BY_MIME,
+    createFileNamer,
+    formatDocumentName,
+    type ExportSettings,
+} from './exportSettings'
 
 async function nextFrame(times = 1): Promise<void> {
     for (let i = 0; i < times; i++) {
@@ -7,7 +20,40 @@ async function nextFrame(times = 1): Promise<void> {
     }
 }
 
-async function waitForFonts(timeoutMs = 3000): Promise<void> {
+class FontLoadError extends Error {
+    constructor(families: string[]) {
+        super(`字体未能加载：${families.join('、')}`)
+        this.name = 'FontLoadError'
+    }
+}
+
+class ImageLoadError extends Error {
+    constructor(count: number) {
+        super(`${count} 张图片加载失败或超时`)
+        this.name = 'ImageLoadError'
+    }
+}
+
+// Weights the card stylesheet uses for body text and headings/bold
+const FONT_WEIGHTS = [400, 700]
+
+/**
+ * Of the families that failed to load, the ones export can't do without.
+ * The built-in serif falls back to the rest of the theme's stack (with a
+ * warning); an uploaded font was chosen on purpose, so it is required.
+ */
+function requiredMissingFonts(missing: string[]): string[] {
+    const fallback = missing.filter(isBuiltInFontFamily)
+    if (fallback.length > 0) console.warn('Built-in fonts unavailable, exporting with fallback fonts:', fallback)
+    return missing.filter(family => !isBuiltInFontFamily(family))
+}
+
+/**
+ * Wait for pending font loads, then explicitly load the chosen families.
+ * Throws when an uploaded one still isn't available, rather than capturing
+ * with a fallback font.
+ */
+async function waitForFonts(families: string[], timeoutMs = 3000): Promise<void> {
     const fonts = document.fonts
     if (!fonts?.ready) return
 
@@ -15,8 +61,23 @@ async function waitForFonts(timeoutMs = 3000): Promise<void> {
         fonts.ready.then(() => undefined),
         new Promise<void>(resolve => setTimeout(resolve, timeoutMs)),
     ])
+
+    const specs = families.flatMap(family => FONT_WEIGHTS.map(weight => `${weight} 32px "${family}"`))
+    await Promise.race([
+        Promise.allSettled(specs.map(spec => fonts.load(spec, '字A'))).then(() => undefined),
+        new Promise<void>(resolve => setTimeout(resolve, timeoutMs)),
+    ])
+
+    const missing = requiredMissingFonts(families.filter(family => !FONT_WEIGHTS.every(weight => fonts.check(`${weight} 32px "${family}"`, '字A'))))
+    if (missing.length > 0) {
+        throw new FontLoadError(missing)
+    }
 }
 
+/**
+ * Wait for the card's images to decode. Throws when any is still missing
+ * after the timeout, rather than capturing the card with a blank image.
+ */
 async function waitForImages(root: HTMLElement, timeoutMs = 5000): Promise<void> {
     const imgs = Array.from(root.querySelectorAll('img'))
     if (imgs.length === 0) return
@@ -47,119 +108,391 @@ async function waitForImages(root: HTMLElement, timeoutMs = 5000): Promise<void>
         Promise.all(imgs.map(waitOne)).then(() => undefined),
         new Promise<void>(resolve => setTimeout(resolve, timeoutMs)),
     ])
+
+    const missing = imgs.filter(img => !(img.complete && img.naturalWidth > 0))
+    if (missing.length > 0) {
+        throw new ImageLoadError(missing.length)
+    }
 }
 
-async function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
-    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
-    if (!blob) throw new Error('Failed to encode PNG')
+async function canvasToBlob(canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): Promise<Blob> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality))
+    if (!blob) throw new Error(`Failed to encode ${mimeType}`)
     return blob
 }
 
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// Browsers cap canvas size; a long image beyond these limits is scaled down
+const MAX_CANVAS_SIDE = 32000
+const MAX_CANVAS_AREA = 250_000_000
+// Browsers may block downloads fired in quick succession
+const DOWNLOAD_INTERVAL_MS = 400
+// 96 CSS px per inch, 72 pt per inch
+const PX_TO_PT = 0.75
+// Width of the progress thumbnail of each captured card
+const THUMBNAIL_WIDTH = 120
+
+export interface ExportItem {
+    // Rendered as `card-export-{id}`
+    id: string
+    // Number in the file name: the cover is 0, content cards start at 1
+    index: number
+}
+
+export type ExportFailureReason = 'missing' | 'fonts' | 'images' | 'capture'
+
+export const EXPORT_FAILURE_LABELS: Record<ExportFailureReason, string> = {
+    missing: '卡片未渲染',
+    fonts: '字体加载失败',
+    images: '图片加载失败',
+    capture: '截图失败',
+}
+
+export interface ExportFailure {
+    item: ExportItem
+    reason: ExportFailureReason
+    message: string
+}
+
+export interface ExportProgress {
+    // Cards processed so far, captured or failed
+    completed: number
+    total: number
+    // The card just processed, with a small preview when it was captured
+    item?: ExportItem
+    thumbnail?: string
+}
+
+export interface ExportResult {
+    exported: number
+    failures: ExportFailure[]
+    // Aborted through the signal. Nothing was packaged, except with the `files`
+    // packaging, which has already downloaded `exported` cards
+    cancelled: boolean
+}
+
+export interface ExportCardsOptions {
+    // Families the cards are styled with; export fails rather than capture a fallback font
+    fontFamilies?: string[]
+    settings?: ExportSettings
+    // For the {title} file-name token
+    title?: string
+    // Scenes for `settings.renderer === 'canvas'`; cards without one are captured from the DOM
+    canvas?: CanvasRenderInput
+    // Aborts between cards. The partial zip, PDF or long image is discarded;
+    // cards the `files` packaging has downloaded stay downloaded
+    signal?: AbortSignal
+    onProgress?: (progress: ExportProgress) => void
+}
+
+// Receives captured cards in order and produces the download
+interface ExportSink {
+    add: (canvas: HTMLCanvasElement, item: ExportItem) => Promise<void>
+    finish: () => Promise<void>
+}
+
+interface SinkContext {
+    settings: ExportSettings
+    format: CanvasFormat
+    count: number
+    // Unique within the export: call once per card
+    fileName: (item: ExportItem) => string
+    documentName: string
+}
+
+async function encodeCard(canvas: HTMLCanvasElement, settings: ExportSettings): Promise<{ blob: Blob; extension: string }> {
+    const blob = await canvasToBlob(canvas, MIME_BY_FORMAT[settings.format], settings.quality)
+    // Browsers without WebP encoding fall back to PNG
+    return { blob, extension: EXTENSION_BY_MIME[blob.type] ?? 'png' }
+}
+
+function createZipSink({ settings, fileName, documentName }: SinkContext): ExportSink {
+    const zip = new JSZip()
+    const folder = zip.folder('cards') ?? zip
+    let added = 0
+    return {
+        add: async (canvas, item) => {
+            const { blob, extension } = await encodeCard(canvas, settings)
+            folder.file(`${fileName(item)}.${extension}`, blob)
+            added++
+        },
+        finish: async () => {
+            if (added === 0) return
+            const zipBlob = await zip.generateAsync({ type: 'blob' })
+            downloadBlob(zipBlob, `${documentName}.zip`)
+        },
+    }
+}
+
+function createFilesSink({ settings, fileName }: SinkContext): ExportSink {
+    let added = 0
+    return {
+        add: async (canvas, item) => {
+            const { blob, extension } = await encodeCard(canvas, settings)
+            if (added > 0) await sleep(DOWNLOAD_INTERVAL_MS)
+            downloadBlob(blob, `${fileName(item)}.${extension}`)
+            added++
+        },
+        finish: async () => {},
+    }
+}
+
+function createPdfSink({ settings, format, documentName }: SinkContext): ExportSink {
+    const pages: PdfPage[] = []
+    return {
+        add: async (canvas) => {
+            // PDF pages embed JPEG data directly, whatever the image format setting
+            const jpeg = await canvasToBlob(canvas, 'image/jpeg', settings.quality)
+            pages.push({
+                jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+                width: canvas.width,
+                height: canvas.height,
+                pageWidth: format.width * PX_TO_PT,
+                pageHeight: format.height * PX_TO_PT,
+            })
+        },
+        finish: async () => {
+            if (pages.length === 0) return
+            downloadBlob(createPdf(pages), `${documentName}.pdf`)
+        },
+    }
+}
+
+function createLongImageSink({ settings, format, count, documentName }: SinkContext): ExportSink {
+    // Cards are drawn as they arrive, so only the stitched canvas is kept in memory
+    const cardWidth = Math.round(format.width * settings.scale)
+    const cardHeight = Math.round(format.height * settings.scale)
+    const fit = Math.min(
+        1,
+        MAX_CANVAS_SIDE / (cardHeight * count),
+        Math.sqrt(MAX_CANVAS_AREA / (cardWidth * cardHeight * count))
+    )
+    const width = Math.floor(cardWidth * fit)
+    const height = Math.floor(cardHeight * fit)
+
+    const stitched = document.createElement('canvas')
+    stitched.width = width
+    stitched.height = height * count
+    const ctx = stitched.getContext('2d')
+    if (!ctx) throw new Error('Canvas unavailable')
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, stitched.width, stitched.height)
+
+    let drawn = 0
+    return {
+        add: async (canvas) => {
+            ctx.drawImage(canvas, 0, drawn * height, width, height)
+            drawn++
+        },
+        finish: async () => {
+            if (drawn === 0) return
+            let output = stitched
+            // Cards that failed to capture leave no gap at the end
+            if (drawn < count) {
+                output = document.createElement('canvas')
+                output.width = width
+                output.height = height * drawn
+                output.getContext('2d')?.drawImage(stitched, 0, 0)
+            }
+            const { blob, extension } = await encodeCard(output, settings)
+            downloadBlob(blob, `${documentName}.${extension}`)
+        },
+    }
+}
+
+function createThumbnail(canvas: HTMLCanvasElement): string | undefined {
+    const thumbnail = document.createElement('canvas')
+    thumbnail.width = THUMBNAIL_WIDTH
+    thumbnail.height = Math.round(canvas.height * THUMBNAIL_WIDTH / canvas.width)
+    const ctx = thumbnail.getContext('2d')
+    if (!ctx) return undefined
+    ctx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height)
+    return thumbnail.toDataURL('image/jpeg', 0.8)
+}
+
+function failureReason(error: unknown): ExportFailureReason {
+    if (error instanceof FontLoadError) return 'fonts'
+    if (error instanceof ImageLoadError) return 'images'
+    return 'capture'
+}
+
+// Render clones in a stable, on-screen coordinate space to avoid html2canvas
+// issues with off-screen (negative) coordinates.
+function createCaptureContainer(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.style.position = 'fixed'
+    container.style.top = '0'
+    container.style.left = '0'
+    container.style.width = '0'
+    container.style.height = '0'
+    container.style.overflow = 'visible'
+    container.style.pointerEvents = 'none'
+    container.style.zIndex = '-1'
+    document.body.appendChild(container)
+    return container
+}
+
+async function captureElement(element: HTMLElement, container: HTMLElement, format: CanvasFormat, scale: number): Promise<HTMLCanvasElement> {
+    try {
+        const clone = element.cloneNode(true) as HTMLElement
+        clone.style.position = 'absolute'
+        clone.style.top = '0'
+        clone.style.left = '0'
+        clone.style.margin = '0'
+        clone.style.transform = 'none'
+        container.appendChild(clone)
+
+        // Give the browser a moment to layout, and ensure images are decoded.
+        await nextFrame(2)
+        await waitForImages(clone)
+        await nextFrame(1)
+
+        const width = clone.offsetWidth || format.width
+        const height = clone.offsetHeight || format.height
+
+        return await html2canvas(clone, {
+            scale,
+            useCORS: true,
+            foreignObjectRendering: true,
+            backgroundColor: '#ffffff',
+            logging: false,
+            width,
+            height,
+            windowWidth: width,
+            windowHeight: height,
+            scrollX: 0,
+            scrollY: 0,
+            x: 0,
+            y: 0,
+        })
+    } finally {
+        // Clean up clone if it was appended
+        while (container.firstChild) container.removeChild(container.firstChild)
+    }
+}
+
 /**
- * Export all card elements as PNG images bundled in a zip file
- * @param cardIds - Array of card IDs to export
+ * Capture one rendered card (`card-export-{id}`) with html2canvas.
  */
-export async function exportCards(cardIds: string[]): Promise<void> {
-    const zip = new JSZip()
-    const folder = zip.folder('cards')
+export async function captureCardElement(cardId: string, format: CanvasFormat, scale: number): Promise<HTMLCanvasElement> {
+    const element = document.getElementById(`card-export-${cardId}`)
+    if (!element) throw new Error(`Card element not found: card-export-${cardId}`)
+    const container = createCaptureContainer()
+    try {
+        return await captureElement(element, container, format, scale)
+    } finally {
+        container.parentNode?.removeChild(container)
+    }
+}
+
+const SINK_FACTORIES: Record<ExportSettings['packaging'], (context: SinkContext) => ExportSink> = {
+    zip: createZipSink,
+    files: createFilesSink,
+    pdf: createPdfSink,
+    long: createLongImageSink,
+}
+
+/**
+ * Export card elements as images, packaged as configured (zip, individual
+ * downloads, a multi-page PDF or one stitched long image). With the canvas
+ * renderer, cards that have a scene are painted in a worker instead of
+ * captured from the page.
+ * Cards that fail are skipped and reported in the result; errors outside
+ * the capture loop (packaging, encoding) are thrown.
+ * @param items - Cards to export, with the number used in each file name
+ * @param format - Canvas format the cards were rendered with (size fallback)
+ * @param options - Export settings, title for file names, fonts that must be loaded before capture, cancellation and progress
+ */
+export async function exportCards(
+    items: ExportItem[],
+    format: CanvasFormat = DEFAULT_CANVAS_FORMAT,
+    options: ExportCardsOptions = {}
+): Promise<ExportResult> {
+    const settings = options.settings ?? DEFAULT_EXPORT_SETTINGS
+    const date = new Date().toISOString().slice(0, 10)
+    const title = options.title ?? ''
+    const { signal, onProgress } = options
+    const failures: ExportFailure[] = []
+    let exported = 0
+
+    onProgress?.({ completed: 0, total: items.length })
+
+    try {
+        await waitForFonts(options.fontFamilies ?? [])
+    } catch (error) {
+        // Every card would be captured with a fallback font, so none is exported
+        const message = error instanceof Error ? error.message : String(error)
+        return { exported, failures: items.map(item => ({ item, reason: failureReason(error), message })), cancelled: false }
+    }
+
+    const fileName = createFileNamer(settings.fileNamePattern, { title, date })
+    const sink = SINK_FACTORIES[settings.packaging]({
+        settings,
+        format,
+        count: items.length,
+        fileName: item => fileName(item.index),
+        documentName: formatDocumentName({ title, date }),
+    })
+
+    let renderer: CardCanvasRenderer | null = null
+    if (settings.renderer === 'canvas' && options.canvas && items.some(item => options.canvas?.scenes.has(item.id))) {
+        try {
+            renderer = await createCardCanvasRenderer(options.canvas)
+        } catch (error) {
+            console.warn('Canvas renderer unavailable, capturing from the page:', error)
+        }
+    }
+    // Same policy as the page: the built-in serif may fall back, uploaded fonts may not
+    const workerMissingFonts = requiredMissingFonts((options.fontFamilies ?? []).filter(family => renderer?.failedFonts.includes(family)))
+
+    const container = createCaptureContainer()
 
-    let container: HTMLDivElement | null = null
     try {
-        await waitForFonts()
-
-        // Render clones in a stable, on-screen coordinate space to avoid html2canvas
-        // issues with off-screen (negative) coordinates.
-        container = document.createElement('div')
-        container.style.position = 'fixed'
-        container.style.top = '0'
-        container.style.left = '0'
-        container.style.width = '0'
-        container.style.height = '0'
-        container.style.overflow = 'visible'
-        container.style.pointerEvents = 'none'
-        container.style.zIndex = '-1'
-        document.body.appendChild(container)
-
-        for (let i = 0; i < cardIds.length; i++) {
-            const cardId = cardIds[i]
+        for (const [i, item] of items.entries()) {
+            if (signal?.aborted) return { exported, failures, cancelled: true }
+
+            const cardId = item.id
+            const scene = renderer ? options.canvas?.scenes.get(cardId) : undefined
             const element = document.getElementById(`card-export-${cardId}`)
+            let thumbnail: string | undefined
 
-            if (!element) {
+            if (!scene && !element) {
                 console.warn(`Card element not found: card-export-${cardId}`)
-                continue
-            }
+                failures.push({ item, reason: 'missing', message: `card-export-${cardId}` })
+            } else {
+                try {
+                    let canvas: HTMLCanvasElement
+                    if (renderer && scene) {
+                        if (workerMissingFonts.length > 0) throw new FontLoadError(workerMissingFonts)
+                        const failedImages = scene.blocks.filter(block => block.kind === 'image' && renderer?.failedImages.has(block.id))
+                        if (failedImages.length > 0) throw new ImageLoadError(failedImages.length)
+                        canvas = await renderer.render(scene, settings.scale)
+                    } else {
+                        canvas = await captureElement(element as HTMLElement, container, format, settings.scale)
+                    }
 
-            try {
-                const clone = element.cloneNode(true) as HTMLElement
-                clone.style.position = 'absolute'
-                clone.style.top = '0'
-                clone.style.left = '0'
-                clone.style.margin = '0'
-                clone.style.transform = 'none'
-                container.appendChild(clone)
-
-                // Give the browser a moment to layout, and ensure images are decoded.
-                await nextFrame(2)
-                await waitForImages(clone)
-                await nextFrame(1)
-
-                const width = clone.offsetWidth || 1080
-                const height = clone.offsetHeight || 1440
-
-                const canvas = await html2canvas(clone, {
-                    scale: 2, // 2x resolution for high-quality export
-                    useCORS: true,
-                    foreignObjectRendering: true,
-                    backgroundColor: '#ffffff',
-                    logging: false,
-                    width,
-                    height,
-                    windowWidth: width,
-                    windowHeight: height,
-                    scrollX: 0,
-                    scrollY: 0,
-                    x: 0,
-                    y: 0,
-                })
-
-                const fileName = `card_${String(i + 1).padStart(2, '0')}.png`
-                const pngBlob = await canvasToBlob(canvas)
-                if (folder) {
-                    folder.file(fileName, pngBlob)
-                } else {
-                    zip.file(fileName, pngBlob)
+                    if (signal?.aborted) return { exported, failures, cancelled: true }
+                    await sink.add(canvas, item)
+                    exported++
+                    if (onProgress) thumbnail = createThumbnail(canvas)
+                } catch (error) {
+                    console.error(`Failed to capture card ${cardId}:`, error)
+                    failures.push({
+                        item,
+                        reason: failureReason(error),
+                        message: error instanceof Error ? error.message : String(error),
+                    })
                 }
-            } catch (error) {
-                console.error(`Failed to capture card ${cardId}:`, error)
-            } finally {
-                // Clean up clone if it was appended
-                while (container.firstChild) container.removeChild(container.firstChild)
             }
-        }
 
-        const zipBlob = await zip.generateAsync({ type: 'blob' })
-
-        if (zipBlob.size === 0) {
-            alert('Export failed: Empty ZIP file generated.')
-            return
+            onProgress?.({ completed: i + 1, total: items.length, item, thumbnail })
         }
 
-        const url = URL.createObjectURL(zipBlob)
-        const link = document.createElement('a')
-        link.href = url
-        link.download = `wx2xhs_cards_${new Date().toISOString().slice(0, 10)}.zip`
-        document.body.appendChild(link)
-        link.click()
-        document.body.removeChild(link)
-
-        setTimeout(() => URL.revokeObjectURL(url), 1000)
-
-    } catch (error) {
-        console.error('Export failed:', error)
-        alert('导出失败，请重试')
+        await sink.finish()
+        return { exported, failures, cancelled: false }
     } finally {
-        if (container && container.parentNode) {
-            container.parentNode.removeChild(container)
-        }
+        renderer?.dispose()
+        container.parentNode?.removeChild(container)
     }
 }
@@ -0,0 +1,123 @@
+/**
+ * Export options: image encoding, output scale, file naming and packaging.
+ * Saved as a user preference, shared by all projects.
+ */
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp'
+export type ExportPackaging = 'zip' | 'files' | 'pdf' | 'long'
+// `dom` captures the rendered preview with html2canvas; `canvas` paints the cards in a worker
+export type ExportRenderer = 'dom' | 'canvas'
+
+export interface ExportSettings {
+    format: ImageFormat
+    // 0-1, used by JPEG and WebP (and the pages of a PDF)
+    quality: number
+    // Output pixels per canvas pixel
+    scale: number
+    // Tokens: {n} card number, {nn} zero-padded number, {title} project title, {date} YYYY-MM-DD
+    fileNamePattern: string
+    packaging: ExportPackaging
+    renderer: ExportRenderer
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'png',
+    quality: 0.92,
+    scale: 2,
+    fileNamePattern: 'card_{nn}',
+    packaging: 'zip',
+    renderer: 'dom',
+}
+
+export const EXPORT_SCALES = [1, 1.5, 2, 3]
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+    png: 'PNG',
+    jpeg: 'JPEG',
+    webp: 'WebP',
+}
+
+export const PACKAGING_LABELS: Record<ExportPackaging, string> = {
+    zip: 'ZIP 压缩包',
+    files: '逐张下载',
+    pdf: 'PDF 文档',
+    long: '拼接长图',
+}
+
+export const RENDERER_LABELS: Record<ExportRenderer, string> = {
+    dom: '页面截图',
+    canvas: 'Canvas 绘制',
+}
+
+export const MIME_BY_FORMAT: Record<ImageFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+}
+
+export const EXTENSION_BY_MIME: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+}
+
+const EXPORT_SETTINGS_KEY = 'wx2xhs-export-settings'
+
+export function loadExportSettings(): ExportSettings {
+    try {
+        const saved = localStorage.getItem(EXPORT_SETTINGS_KEY)
+        if (saved) return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(saved) as Partial<ExportSettings> }
+    } catch (e) {
+        console.warn('Failed to load export settings:', e)
+    }
+    return DEFAULT_EXPORT_SETTINGS
+}
+
+export function saveExportSettings(settings: ExportSettings): void {
+    try {
+        localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings))
+    } catch (e) {
+        console.warn('Failed to save export settings:', e)
+    }
+}
+
+function sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Expand a file-name pattern (without extension) for one card.
+ */
+export function formatFileName(pattern: string, fields: { index: number; title: string; date: string }): string {
+    const name = (pattern.trim() || DEFAULT_EXPORT_SETTINGS.fileNamePattern)
+        .replace(/\{nn\}/g, String(fields.index).padStart(2, '0'))
+        .replace(/\{n\}/g, String(fields.index))
+        .replace(/\{title\}/g, fields.title)
+        .replace(/\{date\}/g, fields.date)
+    return sanitizeFileName(name) || `card_${String(fields.index).padStart(2, '0')}`
+}
+
+/**
+ * File namer for one export run. A pattern without `{n}` or `{nn}` gives every
+ * card the same name, so repeats get a `-2`, `-3`… suffix instead of
+ * overwriting each other (compared case-insensitively, like most file systems).
+ */
+export function createFileNamer(pattern: string, fields: { title: string; date: string }): (index: number) => string {
+    const used = new Set<string>()
+    return (index) => {
+        const base = formatFileName(pattern, { ...fields, index })
+        let name = base
+        for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}-${n}`
+        used.add(name.toLowerCase())
+        return name
+    }
+}
+
+/**
+ * Name (without extension) of the zip, PDF or long image: the project title
+ * and date, or the generic name used before titles existed.
+ */
+export function formatDocumentName(fields: { title: string; date: string }): string {
+    const title = sanitizeFileName(fields.title)
+    return title ? `${title}_${fields.date}` : `wx2xhs_cards_${fields.date}`
+}
@@ -0,0 +1,106 @@
+import { nanoid } from 'nanoid'
+import type { FontFormat, StoredFont } from './assetStore'
+import { SERIF_FONT_STACK } from './theme'
+import type { WorkerFontSource } from './workerRenderer'
+
+/**
+ * Uploaded fonts: registered with `document.fonts` under an internal family
+ * name, and referenced from themes by their font stack.
+ */
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff2'
+
+const FORMAT_BY_EXTENSION: Record<string, FontFormat> = {
+    ttf: 'truetype',
+    otf: 'opentype',
+    woff2: 'woff2',
+}
+
+// The @font-face rules of index.css in the weights cards use, for the export worker
+const BUILT_IN_FONT_FACES: WorkerFontSource[] = [
+    { family: 'Source Han Serif CN', source: '/SourceHanSerifCN-Regular-1.otf', weight: '400' },
+    { family: 'Source Han Serif CN', source: '/SourceHanSerifCN-SemiBold-7.otf', weight: '600' },
+    { family: 'Source Han Serif CN', source: '/SourceHanSerifCN-Bold-2.otf', weight: '700' },
+]
+
+/**
+ * Whether a family is the app's own serif. Its files may be missing from a
+ * deployment, and the theme stacks fall back to system fonts after it.
+ */
+export function isBuiltInFontFamily(family: string): boolean {
+    return BUILT_IN_FONT_FACES.some(face => face.family === family)
+}
+
+// Faces already added to document.fonts, by font id
+const registeredFaces = new Map<string, FontFace>()
+
+export function fontFamilyName(font: Pick<StoredFont, 'id'>): string {
+    return `wx2xhs-font-${font.id}`
+}
+
+/**
+ * Font stack for a theme: the uploaded face first, the default CJK serif as fallback.
+ */
+export function fontStack(font: Pick<StoredFont, 'id'>): string {
+    return `"${fontFamilyName(font)}", ${SERIF_FONT_STACK}`
+}
+
+/**
+ * First family of a CSS font stack, without quotes.
+ */
+export function primaryFontFamily(stack: string): string {
+    return stack.split(',')[0].trim().replace(/^["']|["']$/g, '')
+}
+
+/**
+ * Read an uploaded font file. Throws for unsupported file types.
+ */
+export async function readFontFile(file: File): Promise<StoredFont> {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+    const format = FORMAT_BY_EXTENSION[extension]
+    if (!format) {
+        throw new Error('仅支持 TTF、OTF、WOFF2 字体文件')
+    }
+    return {
+        id: nanoid(8),
+        name: file.name.replace(/\.[^.]+$/, '') || file.name,
+        format,
+        data: await file.arrayBuffer(),
+    }
+}
+
+/**
+ * Add fonts to `document.fonts` (once per font) and wait until they are parsed.
+ * A single file serves every weight, so headings don't fall back to another face.
+ */
+export async function registerFonts(fonts: StoredFont[]): Promise<void> {
+    await Promise.all(fonts.map(async font => {
+        if (registeredFaces.has(font.id)) return
+        const face = new FontFace(fontFamilyName(font), font.data, { weight: '100 900' })
+        registeredFaces.set(font.id, face)
+        try {
+            await face.load()
+            document.fonts.add(face)
+        } catch (error) {
+            registeredFaces.delete(font.id)
+            throw error
+        }
+    }))
+}
+
+export function unregisterFont(fontId: string): void {
+    const face = registeredFaces.get(fontId)
+    if (!face) return
+    document.fonts.delete(face)
+    registeredFaces.delete(fontId)
+}
+
+/**
+ * Font faces for the export worker: the built-in serif and the project's uploads.
+ */
+export function workerFontSources(fonts: StoredFont[]): WorkerFontSource[] {
+    return [
+        ...BUILT_IN_FONT_FACES,
+        ...fonts.map(font => ({ family: fontFamilyName(font), source: font.data, weight: '100 900' })),
+    ]
+}
@@ -0,0 +1,114 @@
+import type { Typography } from './splitToCards'
+
+/**
+ * App-level undo history of the project's document state: source text,
+ * typography and images. Entries hold whole snapshots; the maps are replaced
+ * (never mutated) on every change, so a snapshot only keeps references.
+ */
+
+export type HistoryAction =
+    | 'open'
+    | 'text'
+    | 'card-edit'
+    | 'pagination'
+    | 'auto-pagination'
+    | 'fit-cards'
+    | 'split'
+    | 'merge'
+    | 'reorder'
+    | 'card-style'
+    | 'typography'
+    | 'image-add'
+    | 'image-remove'
+    | 'image-resize'
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+    open: '打开项目',
+    text: '编辑文字',
+    'card-edit': '编辑卡片',
+    pagination: '重新分页',
+    'auto-pagination': '自动分页',
+    'fit-cards': '按张数排版',
+    split: '拆分卡片',
+    merge: '合并卡片',
+    reorder: '调整卡片顺序',
+    'card-style': '调整卡片样式',
+    typography: '调整排版',
+    'image-add': '添加图片',
+    'image-remove': '删除图片',
+    'image-resize': '调整图片大小',
+}
+
+export interface HistorySnapshot {
+    originalText: string
+    typography: Typography
+    images: Map<string, string>
+    imageSizes: Map<string, number>
+}
+
+export interface HistoryEntry {
+    action: HistoryAction
+    snapshot: HistorySnapshot
+    // Last time the entry was written (coalescing extends it)
+    time: number
+}
+
+export interface History {
+    entries: HistoryEntry[]
+    // Entry matching the current state; later entries can be redone
+    index: number
+}
+
+const HISTORY_LIMIT = 100
+// Changes of the same kind within this window merge into one entry
+const COALESCE_MS = 1500
+const COALESCING_ACTIONS: HistoryAction[] = ['text', 'card-edit', 'card-style', 'typography', 'image-resize']
+
+export function createHistory(snapshot: HistorySnapshot): History {
+    return { entries: [{ action: 'open', snapshot, time: Date.now() }], index: 0 }
+}
+
+export function snapshotsEqual(a: HistorySnapshot, b: HistorySnapshot): boolean {
+    return a.originalText === b.originalText
+        && a.typography === b.typography
+        && a.images === b.images
+        && a.imageSizes === b.imageSizes
+}
+
+/**
+ * Record a change, dropping the redo entries. Typing bursts and repeated
+ * adjustments coalesce; auto pagination right after a change joins it, so
+ * one undo reverts both.
+ */
+export function pushHistory(history: History, action: HistoryAction, snapshot: HistorySnapshot, now = Date.now()): History {
+    const current = history.entries[history.index]
+    const entries = history.entries.slice(0, history.index + 1)
+    const recent = current.action !== 'open' && now - current.time < COALESCE_MS
+    const merges = recent && (
+        (action === current.action && COALESCING_ACTIONS.includes(action)) || action === 'auto-pagination'
+    )
+
+    if (merges) {
+        entries[entries.length - 1] = { ...current, snapshot, time: now }
+        return { entries, index: entries.length - 1 }
+    }
+
+    entries.push({ action, snapshot, time: now })
+    const overflow = Math.max(0, entries.length - HISTORY_LIMIT)
+    return { entries: entries.slice(overflow), index: entries.length - 1 - overflow }
+}
+
+export function canUndo(history: History): boolean {
+    return history.index > 0
+}
+
+export function canRedo(history: History): boolean {
+    return history.index < history.entries.length - 1
+}
+
+/**
+ * Move to another entry (undo, redo, or a jump from the history list).
+ */
+export function moveHistory(history: History, index: number): History {
+    return { ...history, index: Math.min(history.entries.length - 1, Math.max(0, index)) }
+}
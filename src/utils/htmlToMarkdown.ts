@@ -0,0 +1,271 @@
+/**
+ * Convert WeChat-article HTML into the markdown dialect understood by
+ * `splitToCards` and `CardPreview`.
+ *
+ * Supports: sections/paragraphs, <h1>–<h6>, <strong>/<b>, <em>/<i>, <u>, <mark>,
+ * inline styles (bold/italic/underline), lists, blockquotes, <pre>/<code>, tables,
+ * <br> and <img> (registered through `registerImage` as `[IMG:id]` placeholders).
+ */
+
+export type RegisterImage = (src: string) => string | null
+
+interface ConvertContext {
+    registerImage: RegisterImage
+    bold: boolean
+    italic: boolean
+    underline: boolean
+    highlight: boolean
+    listDepth: number
+}
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'div', 'dl', 'dd', 'dt', 'figcaption', 'figure', 'footer',
+    'header', 'main', 'nav', 'p', 'section',
+])
+
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'iframe', 'svg', 'head', 'title', 'meta', 'link', 'button', 'input'])
+
+// Markers that indicate the clipboard HTML carries structure worth converting.
+const STRUCTURED_HTML_PATTERN = /<(img|h[1-6]|strong|b|em|i|u|mark|li|blockquote|section|pre|table)[\s>/]|rich_media|data-src=|font-weight:\s*(bold|[6-9]00)/i
+
+// Google Docs wraps the whole clipboard payload in <b style="font-weight:normal">
+const NON_BOLD_B_TAG = /<b\b[^>]*font-weight:\s*(normal|[1-5]00)\b[^>]*>/gi
+
+/**
+ * Whether clipboard HTML has enough structure to prefer it over plain text.
+ */
+export function isStructuredHtml(html: string): boolean {
+    return STRUCTURED_HTML_PATTERN.test(html.replace(NON_BOLD_B_TAG, ''))
+}
+
+function wrapInline(inner: string, marker: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(inner)
+    if (!match || !match[2]) return inner
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`
+}
+
+function isBoldWeight(weight: string): boolean {
+    if (weight === 'bold' || weight === 'bolder') return true
+    const numeric = Number.parseInt(weight, 10)
+    return Number.isFinite(numeric) && numeric >= 600
+}
+
+// Line-start constructs: `---` card breaks, lists, quotes, headings and
+// `@card`/`@keep`/`@end` directives. Any text node may begin a line, and an
+// escape elsewhere still reads as the character.
+const LINE_START_MARKUP = /^(\s*)(?:([-+>#@])|(\d+)([.)]))/
+
+// Backslash-escape the characters of article text that would read as markup
+function escapeText(text: string): string {
+    return text
+        .replace(/[\\*`]/g, '\\$&')
+        .replace(/==+|__+|~~+/g, run => run.replace(/./g, '\\$&'))
+        .replace(/\[IMG:/g, '\\$&')
+        .replace(LINE_START_MARKUP, (_, space: string, marker?: string, number?: string, delimiter?: string) => (
+            marker ? `${space}\\${marker}` : `${space}${number}\\${delimiter}`
+        ))
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim()
+}
+
+function convertChildren(node: Node, ctx: ConvertContext): string {
+    let out = ''
+    node.childNodes.forEach(child => {
+        out += convertNode(child, ctx)
+    })
+    return out
+}
+
+function convertList(element: HTMLElement, ctx: ConvertContext, ordered: boolean): string {
+    const indent = '  '.repeat(ctx.listDepth)
+    const nested = { ...ctx, listDepth: ctx.listDepth + 1 }
+    const start = Number.parseInt(element.getAttribute('start') ?? '1', 10) || 1
+    const items: string[] = []
+
+    let index = 0
+    element.childNodes.forEach(child => {
+        if (!(child instanceof HTMLElement) || child.tagName.toLowerCase() !== 'li') return
+        const marker = ordered ? `${start + index}.` : '-'
+        index++
+
+        const body = convertChildren(child, nested)
+            .replace(/\n{2,}/g, '\n')
+            .trim()
+        if (!body) return
+
+        const [first, ...rest] = body.split('\n')
+        const continuation = rest.map(line => (/^\s*([-*+]|\d+\.)\s/.test(line) ? line : `${indent}  ${line.trim()}`))
+        items.push([`${indent}${marker} ${first.trim()}`, ...continuation].join('\n'))
+    })
+
+    if (items.length === 0) return ''
+    return ctx.listDepth > 0 ? `\n${items.join('\n')}\n` : `\n\n${items.join('\n')}\n\n`
+}
+
+function convertTable(element: HTMLElement, ctx: ConvertContext): string {
+    const rows = Array.from(element.querySelectorAll('tr'))
+        .map(row => Array.from(row.querySelectorAll('th, td')).map(cell => escapeTableCell(convertChildren(cell, ctx))))
+        .filter(cells => cells.length > 0)
+    if (rows.length === 0) return ''
+
+    const columnCount = Math.max(...rows.map(r => r.length))
+    const pad = (cells: string[]) => [...cells, ...Array(columnCount - cells.length).fill('')]
+    const lines = [
+        `| ${pad(rows[0]).join(' | ')} |`,
+        `| ${Array(columnCount).fill('---').join(' | ')} |`,
+        ...rows.slice(1).map(cells => `| ${pad(cells).join(' | ')} |`),
+    ]
+    return `\n\n${lines.join('\n')}\n\n`
+}
+
+function convertNode(node: Node, ctx: ConvertContext): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return escapeText((node.textContent ?? '').replace(/[ \t\r\n\u00a0]+/g, ' '))
+    }
+    if (!(node instanceof HTMLElement)) return ''
+
+    const tag = node.tagName.toLowerCase()
+    if (SKIP_TAGS.has(tag)) return ''
+    if (node.style.display === 'none' || node.hidden) return ''
+
+    switch (tag) {
+        case 'br':
+            return '\n'
+        case 'hr':
+            return '\n\n'
+        case 'img': {
+            // WeChat lazy-loads images through data-src; prefer whichever is a data URL.
+            const candidates = [node.getAttribute('src'), node.getAttribute('data-src')].filter((s): s is string => !!s)
+            const src = candidates.find(s => s.startsWith('data:')) ?? candidates[0]
+            if (!src) return ''
+            const id = ctx.registerImage(src)
+            return id ? `\n\n[IMG:${id}]\n\n` : ''
+        }
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+            const level = Math.min(3, Number.parseInt(tag.slice(1), 10))
+            const text = convertChildren(node, { ...ctx, bold: true }).replace(/\s+/g, ' ').trim()
+            return text ? `\n\n${'#'.repeat(level)} ${text}\n\n` : ''
+        }
+        case 'strong':
+        case 'b': {
+            // An inline weight overrides the tag, e.g. Google Docs' non-bold wrapper
+            if (node.style.fontWeight && !isBoldWeight(node.style.fontWeight)) break
+            const inner = convertChildren(node, { ...ctx, bold: true })
+            return ctx.bold ? inner : wrapInline(inner, '**')
+        }
+        case 'em':
+        case 'i': {
+            const inner = convertChildren(node, { ...ctx, italic: true })
+            return ctx.italic ? inner : wrapInline(inner, '*')
+        }
+        case 'u':
+        case 'ins': {
+            const inner = convertChildren(node, { ...ctx, underline: true })
+            return ctx.underline ? inner : wrapInline(inner, '__')
+        }
+        case 'mark': {
+            const inner = convertChildren(node, { ...ctx, highlight: true })
+            return ctx.highlight ? inner : wrapInline(inner, '==')
+        }
+        case 'code': {
+            const text = node.textContent ?? ''
+            return text ? `\`${text}\`` : ''
+        }
+        case 'pre': {
+            const text = (node.textContent ?? '').replace(/\n+$/, '')
+            return text ? `\n\n\`\`\`\n${text}\n\`\`\`\n\n` : ''
+        }
+        case 'a': {
+            const inner = convertChildren(node, ctx)
+            const href = node.getAttribute('href') ?? ''
+            if (!inner.trim() || !/^https?:/i.test(href)) return inner
+            return `[${inner.trim()}](${href})`
+        }
+        case 'ul':
+        case 'ol':
+            return convertList(node, ctx, tag === 'ol')
+        case 'blockquote': {
+            const body = convertChildren(node, ctx)
+                .replace(/\n{3,}/g, '\n\n')
+                .trim()
+            if (!body) return ''
+            const quoted = body.split('\n').map(line => (line.trim() ? `> ${line.trim()}` : '>')).join('\n')
+            return `\n\n${quoted}\n\n`
+        }
+        case 'table':
+            return convertTable(node, ctx)
+    }
+
+    // Inline styles carry most of WeChat's emphasis (e.g. <span style="font-weight: bold">).
+    const style = node.style
+    const nextCtx = { ...ctx }
+    const markers: string[] = []
+    if (!ctx.bold && isBoldWeight(style.fontWeight)) {
+        nextCtx.bold = true
+        markers.push('**')
+    }
+    if (!ctx.italic && style.fontStyle === 'italic') {
+        nextCtx.italic = true
+        markers.push('*')
+    }
+    if (!ctx.underline && /underline/.test(style.textDecoration || style.textDecorationLine)) {
+        nextCtx.underline = true
+        markers.push('__')
+    }
+
+    let inner = convertChildren(node, nextCtx)
+    for (const marker of markers) inner = wrapInline(inner, marker)
+
+    return BLOCK_TAGS.has(tag) ? `\n\n${inner}\n\n` : inner
+}
+
+function normalizeMarkdown(text: string): string {
+    const lines: string[] = []
+    let inFence = false
+    for (const rawLine of text.split('\n')) {
+        if (/^\s*```/.test(rawLine)) inFence = !inFence
+        if (inFence) {
+            lines.push(rawLine)
+            continue
+        }
+        const line = rawLine.replace(/[ \t]+$/, '')
+        lines.push(/^\s*([-*+]|\d+\.)\s/.test(line) ? line : line.replace(/^[ \t]+/, ''))
+    }
+
+    return lines
+        .join('\n')
+        .replace(/\*\*\*\*/g, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+}
+
+/**
+ * Convert an HTML fragment or full WeChat article page into markdown.
+ * `registerImage` receives each image source and returns an image id, or null to drop it.
+ */
+export function htmlToMarkdown(html: string, registerImage: RegisterImage): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html')
+
+    // Saved article pages: only convert the article body and use its title as the heading.
+    const articleRoot = doc.getElementById('js_content') ?? doc.body
+    const title = doc.getElementById('activity-name')?.textContent?.trim()
+
+    const ctx: ConvertContext = {
+        registerImage,
+        bold: false,
+        italic: false,
+        underline: false,
+        highlight: false,
+        listDepth: 0,
+    }
+
+    const body = normalizeMarkdown(convertChildren(articleRoot, ctx))
+    return title ? `# ${escapeText(title)}\n\n${body}` : body
+}
@@ -0,0 +1,67 @@
+import { createElement } from 'react'
+import { createRoot } from 'react-dom/client'
+import { flushSync } from 'react-dom'
+import { CardPreview, type CardPreviewProps } from '../components/CardPreview'
+import type { ContentHeightMeasurer } from './splitToCards'
+
+export type MeasureProps = Omit<CardPreviewProps, 'card' | 'forExport' | 'onImageResize' | 'displayScale'>
+
+export interface DomMeasurer {
+    measure: ContentHeightMeasurer
+    dispose: () => void
+}
+
+/**
+ * Create a height function that renders candidate card text into a hidden,
+ * export-identical `CardPreview` and reads the real height of `.card-text`.
+ * Results are cached per text, since pagination probes the same prefixes repeatedly.
+ */
+export function createDomMeasurer(props: MeasureProps): DomMeasurer {
+    const host = document.createElement('div')
+    host.setAttribute('aria-hidden', 'true')
+    host.style.position = 'fixed'
+    host.style.top = '0'
+    host.style.left = '-100000px'
+    host.style.visibility = 'hidden'
+    host.style.pointerEvents = 'none'
+    document.body.appendChild(host)
+
+    const root = createRoot(host)
+    const cache = new Map<string, number>()
+    let disposed = false
+
+    const measure: ContentHeightMeasurer = (text: string) => {
+        const content = text.trim()
+        if (!content) return 0
+
+        const cached = cache.get(content)
+        if (cached !== undefined) return cached
+        if (disposed) throw new Error('Measurer has been disposed')
+
+        flushSync(() => {
+            root.render(createElement(CardPreview, {
+                ...props,
+                card: { id: 'measure', text: content, startOffset: 0 },
+                forExport: true,
+            }))
+        })
+
+        const contentElement = host.querySelector<HTMLElement>('.card-text')
+        const height = contentElement ? contentElement.getBoundingClientRect().height : 0
+        cache.set(content, height)
+        return height
+    }
+
+    const dispose = () => {
+        if (disposed) return
+        disposed = true
+        cache.clear()
+        // Unmount outside the current render pass
+        setTimeout(() => {
+            root.unmount()
+            host.remove()
+        }, 0)
+    }
+
+    return { measure, dispose }
+}
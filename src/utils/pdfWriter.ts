@@ -0,0 +1,72 @@
+/**
+ * Minimal PDF writer: one JPEG image per page, drawn to fill the page.
+ * Enough for exporting cards without pulling in a PDF library.
+ */
+
+export interface PdfPage {
+    // Baseline JPEG bytes (embedded as-is with DCTDecode)
+    jpeg: Uint8Array
+    // Image size in pixels
+    width: number
+    height: number
+    // Page size in points
+    pageWidth: number
+    pageHeight: number
+}
+
+const encoder = new TextEncoder()
+
+export function createPdf(pages: PdfPage[]): Blob {
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data
+        chunks.push(bytes)
+        length += bytes.length
+    }
+    const beginObject = (id: number) => {
+        offsets[id] = length
+        write(`${id} 0 obj\n`)
+    }
+
+    // Object ids: 1 catalog, 2 page tree, then page/image/content triples
+    const pageId = (i: number) => 3 + i * 3
+    const objectCount = 2 + pages.length * 3
+
+    write('%PDF-1.4\n%âãÏÓ\n')
+
+    beginObject(1)
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+
+    beginObject(2)
+    write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`)
+
+    pages.forEach((page, i) => {
+        const id = pageId(i)
+        const w = page.pageWidth.toFixed(2)
+        const h = page.pageHeight.toFixed(2)
+
+        beginObject(id)
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>\nendobj\n`)
+
+        beginObject(id + 1)
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`)
+        write(page.jpeg)
+        write('\nendstream\nendobj\n')
+
+        const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`
+        beginObject(id + 2)
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`)
+    })
+
+    const xrefOffset = length
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`)
+    for (let id = 1; id <= objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' })
+}
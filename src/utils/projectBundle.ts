@@ -0,0 +1,232 @@
+import JSZip from 'jszip'
+import type { Project } from '../types'
+import type { StoredImage, StoredFont, FontFormat } from './assetStore'
+import { splitToCards } from './splitToCards'
+import { createProject } from './projectStore'
+import { themeFromLegacyBackground } from './theme'
+import { downloadBlob } from './download'
+
+/**
+ * Portable `.wx2xhs` project bundle (a zip archive):
+ *
+ *   project.json   manifest (schema version, settings, image index, card snapshot)
+ *   source.md      the source markdown, verbatim
+ *   assets/<id>.*  image files referenced by `[IMG:id]`
+ *   fonts/<id>.*   font files uploaded to the project
+ */
+
+/**
+ * Manifest versions; bump with every change to the manifest's shape and teach
+ * `readBundleProject` the older ones.
+ *
+ *   1  title, typography and `backgroundStyle`; later version 1 bundles may
+ *      also carry `theme` (in place of `backgroundStyle`), `canvasFormat`,
+ *      `cover`, `decorations` and `fonts`, each of them optional
+ *   2  `theme`, `canvasFormat`, `cover`, `decorations` and `fonts` always written
+ */
+export const BUNDLE_SCHEMA_VERSION = 2
+export const BUNDLE_EXTENSION = '.wx2xhs'
+
+const MANIFEST_FILE = 'project.json'
+const SOURCE_FILE = 'source.md'
+const ASSET_DIR = 'assets'
+const FONT_DIR = 'fonts'
+
+const EXTENSION_BY_FONT_FORMAT: Record<FontFormat, string> = {
+    truetype: 'ttf',
+    opentype: 'otf',
+    woff2: 'woff2',
+}
+
+type BundleImage = {
+    id: string
+    file: string
+    mimeType: string
+    width?: number
+    height?: number
+    widthPercent?: number
+}
+
+type BundleFont = {
+    id: string
+    name: string
+    file: string
+    format: FontFormat
+}
+
+type BundleProject = Pick<Project, 'title' | 'typography' | 'theme' | 'canvasFormat' | 'cover' | 'decorations'>
+
+type BundleManifest = {
+    schemaVersion: number
+    exportedAt: string
+    project: BundleProject
+    images: BundleImage[]
+    fonts: BundleFont[]
+    // Card texts as split on the sender's machine, to verify the round trip
+    cards: string[]
+}
+
+export interface ImportedBundle {
+    project: Project
+    images: StoredImage[]
+    fonts: StoredFont[]
+    // False when the re-split cards differ from the snapshot in the bundle
+    cardsMatch: boolean
+}
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+}
+
+function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } | null {
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl)
+    if (!match) return null
+    return { mimeType: match[1], base64: match[2] }
+}
+
+// Version 1 manifests: any of the later settings may be missing
+type LegacyBundleProject = Pick<Project, 'title' | 'typography'> & Partial<BundleProject> & { backgroundStyle?: string }
+
+/**
+ * Project settings of a manifest of any version up to BUNDLE_SCHEMA_VERSION,
+ * with the defaults older versions leave out.
+ */
+function readBundleProject(manifest: BundleManifest): Partial<Project> {
+    if (manifest.schemaVersion >= 2) {
+        const { project } = manifest
+        if (!project?.theme || !project.canvasFormat || !project.cover || !project.decorations) {
+            throw new Error('项目文件已损坏')
+        }
+        return project
+    }
+
+    const project = manifest.project as LegacyBundleProject
+    return {
+        title: project.title,
+        typography: project.typography,
+        theme: project.theme ?? themeFromLegacyBackground(project.backgroundStyle),
+        // Left out, these fall back to the defaults of createProject
+        canvasFormat: project.canvasFormat,
+        cover: project.cover,
+        decorations: project.decorations,
+    }
+}
+
+function sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 60) || 'project'
+}
+
+/**
+ * Package a project, its images and fonts into a `.wx2xhs` bundle and download it.
+ */
+export async function exportProjectBundle(project: Project, images: StoredImage[], fonts: StoredFont[] = []): Promise<void> {
+    const zip = new JSZip()
+    const bundleImages: BundleImage[] = []
+
+    for (const image of images) {
+        const parsed = parseDataUrl(image.dataUrl)
+        if (!parsed) {
+            console.warn(`Skipping image with unsupported source: ${image.id}`)
+            continue
+        }
+        const file = `${ASSET_DIR}/${image.id}.${EXTENSION_BY_MIME[parsed.mimeType] ?? 'bin'}`
+        zip.file(file, parsed.base64, { base64: true })
+        bundleImages.push({
+            id: image.id,
+            file,
+            mimeType: parsed.mimeType,
+            width: image.width,
+            height: image.height,
+            widthPercent: image.widthPercent,
+        })
+    }
+
+    const bundleFonts: BundleFont[] = fonts.map(font => {
+        const file = `${FONT_DIR}/${font.id}.${EXTENSION_BY_FONT_FORMAT[font.format]}`
+        zip.file(file, font.data)
+        return { id: font.id, name: font.name, file, format: font.format }
+    })
+
+    const manifest: BundleManifest = {
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        project: {
+            title: project.title,
+            typography: project.typography,
+            theme: project.theme,
+            canvasFormat: project.canvasFormat,
+            cover: project.cover,
+            decorations: project.decorations,
+        },
+        images: bundleImages,
+        fonts: bundleFonts,
+        cards: project.originalText.trim() ? splitToCards(project.originalText).map(card => card.text) : [],
+    }
+
+    zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2))
+    zip.file(SOURCE_FILE, project.originalText)
+
+    const blob = await zip.generateAsync({ type: 'blob' })
+    downloadBlob(blob, `${sanitizeFileName(project.title)}${BUNDLE_EXTENSION}`)
+}
+
+/**
+ * Read a `.wx2xhs` bundle into a new project (with a fresh id) and its images.
+ * Throws when the file is not a bundle, is damaged or was written by a newer schema.
+ */
+export async function importProjectBundle(file: Blob): Promise<ImportedBundle> {
+    const zip = await JSZip.loadAsync(file)
+    const manifestFile = zip.file(MANIFEST_FILE)
+    const sourceFile = zip.file(SOURCE_FILE)
+    if (!manifestFile || !sourceFile) {
+        throw new Error('不是有效的项目文件')
+    }
+
+    const manifest = JSON.parse(await manifestFile.async('string')) as BundleManifest
+    if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+        throw new Error('项目文件版本过新，请升级后再导入')
+    }
+    const settings = readBundleProject(manifest)
+
+    const originalText = await sourceFile.async('string')
+    const images: StoredImage[] = []
+    for (const entry of manifest.images ?? []) {
+        const asset = zip.file(entry.file)
+        if (!asset) {
+            console.warn(`Missing asset in bundle: ${entry.file}`)
+            continue
+        }
+        const base64 = await asset.async('base64')
+        images.push({
+            id: entry.id,
+            dataUrl: `data:${entry.mimeType};base64,${base64}`,
+            width: entry.width,
+            height: entry.height,
+            widthPercent: entry.widthPercent,
+        })
+    }
+
+    const fonts: StoredFont[] = []
+    // Version 1 bundles may have no font list
+    for (const entry of manifest.fonts ?? []) {
+        const fontFile = zip.file(entry.file)
+        if (!fontFile) {
+            console.warn(`Missing font in bundle: ${entry.file}`)
+            continue
+        }
+        fonts.push({ id: entry.id, name: entry.name, format: entry.format, data: await fontFile.async('arraybuffer') })
+    }
+
+    const project = createProject({ ...settings, originalText })
+
+    const cards = originalText.trim() ? splitToCards(originalText).map(card => card.text) : []
+    const snapshot = manifest.cards ?? []
+    const cardsMatch = cards.length === snapshot.length && cards.every((text, i) => text === snapshot[i])
+
+    return { project, images, fonts, cardsMatch }
+}
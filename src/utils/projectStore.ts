@@ -0,0 +1,128 @@
+import { nanoid } from 'nanoid'
+import type { Project } from '../types'
+import { DEFAULT_TYPOGRAPHY } from './splitToCards'
+import { DEFAULT_CANVAS_FORMAT } from './canvasFormat'
+import { DEFAULT_COVER } from './coverCard'
+import { DEFAULT_DECORATIONS } from './cardDecorations'
+import { DEFAULT_THEME, themeFromLegacyBackground } from './theme'
+
+const PROJECTS_KEY = 'wx2xhs-projects'
+const ACTIVE_PROJECT_KEY = 'wx2xhs-active-project'
+const LEGACY_DRAFT_KEY = 'wx2xhs-draft'
+
+export const UNTITLED_PROJECT = '未命名项目'
+
+export interface Workspace {
+    projects: Project[]
+    activeProjectId: string
+    // True when the single-draft storage was converted into the first project
+    migratedFromDraft: boolean
+}
+
+function readJson<T>(key: string): T | null {
+    try {
+        const saved = localStorage.getItem(key)
+        if (saved) return JSON.parse(saved) as T
+    } catch (e) {
+        console.warn(`Failed to load ${key}:`, e)
+    }
+    return null
+}
+
+/**
+ * Derive a readable title from the first non-empty line of the text.
+ */
+export function deriveProjectTitle(text: string): string {
+    const firstLine = text
+        .split('\n')
+        .map(line => line
+            .replace(/^#{1,6}\s+/, '')
+            // Escaped markup (e.g. from pasted articles) reads as the character
+            .replace(/\\([!-/:-@[-`{-~])/g, '$1')
+            .replace(/[*=_`]|\[IMG:[a-zA-Z0-9_-]+\]/g, '')
+            .trim())
+        .find(line => line && line !== '---')
+    if (!firstLine) return UNTITLED_PROJECT
+    return firstLine.length > 24 ? firstLine.slice(0, 24) + '…' : firstLine
+}
+
+export function createProject(fields: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>> = {}): Project {
+    const now = Date.now()
+    return {
+        id: nanoid(),
+        title: fields.title ?? UNTITLED_PROJECT,
+        createdAt: now,
+        updatedAt: now,
+        originalText: fields.originalText ?? '',
+        typography: fields.typography ?? { ...DEFAULT_TYPOGRAPHY },
+        theme: fields.theme ?? DEFAULT_THEME,
+        canvasFormat: fields.canvasFormat ?? DEFAULT_CANVAS_FORMAT,
+        cover: fields.cover ?? DEFAULT_COVER,
+        decorations: fields.decorations ?? DEFAULT_DECORATIONS,
+    }
+}
+
+// Projects saved before themes stored a fixed background style id
+type StoredProject = Project & { backgroundStyle?: string }
+
+// Fill in fields added after a project was saved
+function normalizeProject({ backgroundStyle, ...project }: StoredProject): Project {
+    return {
+        ...project,
+        typography: project.typography ?? { ...DEFAULT_TYPOGRAPHY },
+        theme: project.theme ?? themeFromLegacyBackground(backgroundStyle),
+        canvasFormat: project.canvasFormat ?? DEFAULT_CANVAS_FORMAT,
+        cover: project.cover ?? DEFAULT_COVER,
+        decorations: project.decorations ?? DEFAULT_DECORATIONS,
+    }
+}
+
+export function duplicateProject(source: Project): Project {
+    return createProject({
+        title: `${source.title} 副本`,
+        originalText: source.originalText,
+        typography: { ...source.typography },
+        theme: source.theme,
+        canvasFormat: source.canvasFormat,
+        cover: source.cover,
+        decorations: source.decorations,
+    })
+}
+
+/**
+ * Load the project library, converting the legacy single-draft storage on first run.
+ */
+export function loadWorkspace(): Workspace {
+    const projects = readJson<StoredProject[]>(PROJECTS_KEY)?.map(normalizeProject)
+    if (projects && projects.length > 0) {
+        const activeId = localStorage.getItem(ACTIVE_PROJECT_KEY)
+        const active = projects.find(p => p.id === activeId) ?? projects[0]
+        return { projects, activeProjectId: active.id, migratedFromDraft: false }
+    }
+
+    const draft = readJson<Partial<StoredProject>>(LEGACY_DRAFT_KEY)
+    const project = createProject({
+        title: draft?.originalText ? deriveProjectTitle(draft.originalText) : UNTITLED_PROJECT,
+        originalText: draft?.originalText,
+        typography: draft?.typography,
+        theme: themeFromLegacyBackground(draft?.backgroundStyle),
+    })
+    return { projects: [project], activeProjectId: project.id, migratedFromDraft: draft !== null }
+}
+
+export function saveProjects(projects: Project[]): void {
+    try {
+        localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects))
+        localStorage.removeItem(LEGACY_DRAFT_KEY)
+    } catch (e) {
+        console.warn('Failed to save projects:', e)
+    }
+}
+
+export function saveActiveProjectId(id: string): void {
+    try {
+        localStorage.setItem(ACTIVE_PROJECT_KEY, id)
+    } catch (e) {
+        console.warn('Failed to save active project:', e)
+    }
+}
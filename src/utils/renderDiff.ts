@@ -0,0 +1,131 @@
+import JSZip from 'jszip'
+import type { CanvasFormat } from './canvasFormat'
+import { captureCardElement, type ExportItem } from './exportCards'
+import { createCardCanvasRenderer, type CanvasRenderInput } from './workerRenderer'
+
+/**
+ * Development harness: renders cards with both exporters (html2canvas on the
+ * DOM preview, and the canvas worker) and compares them pixel by pixel, to
+ * show where the canvas renderer drifts from the preview.
+ */
+
+export interface RenderDiffResult {
+    id: string
+    index: number
+    // Pixels where any channel differs by more than the threshold
+    mismatchedPixels: number
+    mismatchRatio: number
+    error?: string
+}
+
+export interface RenderDiffOptions {
+    scale?: number
+    // Per-channel difference (0-255) still counted as equal, to absorb antialiasing
+    threshold?: number
+}
+
+/**
+ * Compare two equally sized images. The diff image greys out matching pixels
+ * and paints mismatches red.
+ */
+export function diffImageData(expected: ImageData, actual: ImageData, threshold: number): { mismatchedPixels: number; diff: ImageData } {
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+        throw new Error(`Size mismatch: ${expected.width}×${expected.height} vs ${actual.width}×${actual.height}`)
+    }
+    const diff = new ImageData(expected.width, expected.height)
+    const a = expected.data
+    const b = actual.data
+    const out = diff.data
+    let mismatchedPixels = 0
+
+    for (let i = 0; i < a.length; i += 4) {
+        const delta = Math.max(
+            Math.abs(a[i] - b[i]),
+            Math.abs(a[i + 1] - b[i + 1]),
+            Math.abs(a[i + 2] - b[i + 2]),
+            Math.abs(a[i + 3] - b[i + 3]),
+        )
+        if (delta > threshold) {
+            mismatchedPixels++
+            out[i] = 255
+            out[i + 1] = 0
+            out[i + 2] = 0
+        } else {
+            const grey = 255 - (255 - (a[i] + a[i + 1] + a[i + 2]) / 3) * 0.2
+            out[i] = grey
+            out[i + 1] = grey
+            out[i + 2] = grey
+        }
+        out[i + 3] = 255
+    }
+
+    return { mismatchedPixels, diff }
+}
+
+function readPixels(canvas: HTMLCanvasElement): ImageData {
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas unavailable')
+    return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+async function toPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('Failed to encode image/png')
+    return blob
+}
+
+/**
+ * Render every item that has a scene both ways and diff the results.
+ * The archive holds `dom_nn.png`, `canvas_nn.png`, `diff_nn.png` and `report.json`.
+ */
+export async function runRenderDiff(
+    items: ExportItem[],
+    format: CanvasFormat,
+    input: CanvasRenderInput,
+    { scale = 1, threshold = 32 }: RenderDiffOptions = {}
+): Promise<{ results: RenderDiffResult[]; archive: Blob }> {
+    const renderer = await createCardCanvasRenderer(input)
+    const zip = new JSZip()
+    const results: RenderDiffResult[] = []
+
+    try {
+        for (const item of items) {
+            const scene = input.scenes.get(item.id)
+            if (!scene) continue
+            const name = String(item.index).padStart(2, '0')
+            try {
+                const dom = await captureCardElement(item.id, format, scale)
+                const painted = await renderer.render(scene, scale)
+                const { mismatchedPixels, diff } = diffImageData(readPixels(dom), readPixels(painted), threshold)
+
+                const diffCanvas = document.createElement('canvas')
+                diffCanvas.width = diff.width
+                diffCanvas.height = diff.height
+                diffCanvas.getContext('2d')?.putImageData(diff, 0, 0)
+
+                zip.file(`dom_${name}.png`, await toPng(dom))
+                zip.file(`canvas_${name}.png`, await toPng(painted))
+                zip.file(`diff_${name}.png`, await toPng(diffCanvas))
+                results.push({
+                    id: item.id,
+                    index: item.index,
+                    mismatchedPixels,
+                    mismatchRatio: mismatchedPixels / (diff.width * diff.height),
+                })
+            } catch (error) {
+                results.push({
+                    id: item.id,
+                    index: item.index,
+                    mismatchedPixels: 0,
+                    mismatchRatio: 0,
+                    error: error instanceof Error ? error.message : String(error),
+                })
+            }
+        }
+    } finally {
+        renderer.dispose()
+    }
+
+    zip.file('report.json', JSON.stringify({ scale, threshold, results }, null, 2))
+    return { results, archive: await zip.generateAsync({ type: 'blob' }) }
+}
@@ -1,15 +1,63 @@
 import { nanoid } from 'nanoid'
+import { parseCardText, hasCardDirective, effectiveTypography } from './cardOverrides'
+import { findCardDelimiters, parseBlocks, parseCardDocument, flattenBlocks, inlineText, markupText, type Block, type ContentBlock } from './cardDocument'
+import {
+    resolveCardLayout,
+    parseLayoutContent,
+    QUOTE_TEXT_EM,
+    QUOTE_MARK_EM,
+    ATTRIBUTION_EM,
+    CHECKLIST_NUMBER_EM,
+    CHECKLIST_ITEM_GAP_EM,
+    HIGHLIGHT_LABEL_EM,
+    HIGHLIGHT_TEXT_EM,
+    HIGHLIGHT_LINE_HEIGHT,
+    type LayoutContent,
+} from './cardLayouts'
 import type { Card } from '../types'
+import { DEFAULT_CANVAS_FORMAT, getContentBox, type CanvasFormat } from './canvasFormat'
 
-// Card layout constants (matching CSS) - 3:4 aspect ratio (1080x1440)
-const CARD_HEIGHT = 1440
-const PADDING_TOP = 100
-const PADDING_BOTTOM = 80
-const CONTENT_WIDTH = 880 // 1080 - 100*2 padding
-const CONTENT_HEIGHT = CARD_HEIGHT - PADDING_TOP - PADDING_BOTTOM // 1240px effective
-const CONTENT_HEIGHT_LIMIT = CONTENT_HEIGHT - 2 // safety buffer
+// Card layout constants (matching CSS); the content box comes from the canvas format
+const CONTENT_HEIGHT_SAFETY_PX = 2 // safety buffer
 const IMAGE_MAX_HEIGHT_PX = 520
 const BASE_CHAR_EM = 0.99
+// Lists, quotes, code and tables, in em of the card font size unless noted
+const LIST_MARGIN_EM = 0.5
+const LIST_ITEM_MARGIN_EM = 0.4
+const BULLET_INDENT_EM = 1.2
+const ORDERED_INDENT_EM = 1.5
+const QUOTE_MARGIN_EM = 0.8
+const QUOTE_PADDING_EM = 0.9
+const QUOTE_BORDER_PX = 6
+const CODE_FONT_EM = 0.75
+// The rest of the code and table sizes are in em of their own (smaller) font
+const CODE_MARGIN_EM = 0.8
+const CODE_PADDING_Y_EM = 1
+const CODE_PADDING_X_EM = 1.2
+const CODE_LINE_HEIGHT = 1.5
+const MONO_CHAR_EM = 0.6
+const TABLE_FONT_EM = 0.8
+const TABLE_MARGIN_EM = 0.75
+const TABLE_CELL_PADDING_Y_EM = 0.4
+const TABLE_CELL_PADDING_X_EM = 0.6
+const TABLE_LINE_HEIGHT = 1.5
+const TABLE_BORDER_PX = 2
+const WIDE_CHAR = /[\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF\u3000-\u303F]/
+// Balanced pagination costs: a card costs more than any unevenness it could
+// remove, and breaking a rule costs more than a card
+const CARD_COST = 100
+const FILL_WEIGHT = 100
+// Fill below which balanced pagination stops trying shorter cards
+const BALANCED_MIN_FILL = 0.7
+// Height estimates after which balanced pagination gives up for greedy
+const BALANCED_MAX_MEASUREMENTS = 30000
+const BREAK_PENALTIES = {
+    paragraph: 0,
+    line: 2,
+    sentence: 4,
+    midSentence: 40,
+    rule: 150,
+}
 
 export interface Typography {
     fontSize: number
@@ -18,7 +66,88 @@ export interface Typography {
     letterSpacing: number
 }
 
-type ImageMeta = { width: number; height: number }
+export type ImageMeta = { width: number; height: number }
+
+/**
+ * Returns the rendered content height (px) of a card holding `text`.
+ */
+export type ContentHeightMeasurer = (text: string) => number
+
+/**
+ * - `estimate`: character-count model, fast but approximate
+ * - `measure`: lays content out in a hidden `CardPreview` and reads real heights
+ */
+export type PaginationEngine = 'estimate' | 'measure'
+
+/**
+ * Typographic rules automatic breaks keep whenever some cut allows it:
+ * - a heading stays on the card with `keepWithNextLines` lines of what follows it
+ * - a paragraph split by a break keeps `orphanLines` lines before the break
+ *   and carries `widowLines` lines onto the next card
+ * - `@keep` … `@end` groups are never split
+ */
+export interface PaginationRules {
+    keepWithNextLines: number
+    orphanLines: number
+    widowLines: number
+}
+
+export const DEFAULT_PAGINATION_RULES: PaginationRules = {
+    keepWithNextLines: 2,
+    orphanLines: 2,
+    widowLines: 2,
+}
+
+/**
+ * - `greedy`: fill each card as far as it goes, one card at a time
+ * - `balanced`: place all breaks together, evening out how full the cards are
+ *   and avoiding poor break points, without adding cards. It measures many
+ *   more cards than greedy, so it runs on the estimator only: with
+ *   `measureHeight`, or on text too long for BALANCED_MAX_MEASUREMENTS,
+ *   breaks are placed greedily
+ */
+export type PaginationStrategy = 'greedy' | 'balanced'
+
+/**
+ * Cost of a pagination (lower is better); `scorePageBreaks` computes it.
+ */
+export interface PaginationScore {
+    cards: number
+    // Cards taller than the content box
+    overflowing: number
+    // Unused height of each card, as a squared fraction of the content box, weighted
+    fill: number
+    // Penalties of the break points: mid-sentence, inside a paragraph, against the rules
+    breaks: number
+    // fill + breaks + a fixed cost per card
+    total: number
+}
+
+/**
+ * Typography picked by `fitTypographyToCardCount`, with the card count its
+ * pagination gives (the target when the ranges allow it).
+ */
+export interface CardCountFit {
+    typography: Typography
+    // Text with the new `---` markers
+    text: string
+    cards: number
+}
+
+export interface PaginationOptions {
+    // Canvas size and paddings (defaults to 3:4, 1080x1440)
+    format?: CanvasFormat
+    // Height function used instead of the estimator (e.g. a DOM measurer)
+    measureHeight?: ContentHeightMeasurer
+    // Break rules (defaults to DEFAULT_PAGINATION_RULES)
+    rules?: PaginationRules
+    // Defaults to 'greedy'
+    strategy?: PaginationStrategy
+}
+
+function contentHeightLimit(format: CanvasFormat): number {
+    return getContentBox(format).height - CONTENT_HEIGHT_SAFETY_PX
+}
 
 export const DEFAULT_TYPOGRAPHY: Typography = {
     fontSize: 32,
@@ -29,16 +158,6 @@ export const DEFAULT_TYPOGRAPHY: Typography = {
 
 // ===== HELPER FUNCTIONS (unchanged) =====
 
-function stripMarkdownMarkers(text: string): string {
-    let result = text
-    result = result.replace(/==/g, '')
-    result = result.replace(/\*\*/g, '')
-    result = result.replace(/__/g, '')
-    result = result.replace(/(?<!\*)\*(?!\*)/g, '')
-    result = result.replace(/\[IMG:[a-zA-Z0-9_-]+\]/g, '')
-    return result
-}
-
 function isInsideImagePlaceholder(text: string, cutIndex: number): boolean {
     const lastOpen = text.lastIndexOf('[IMG:', cutIndex - 1)
     if (lastOpen === -1) return false
@@ -46,78 +165,114 @@ function isInsideImagePlaceholder(text: string, cutIndex: number): boolean {
     return close !== -1 && close >= cutIndex
 }
 
-function isCutSafe(text: string, cutIndex: number): boolean {
+function isCutSafe(text: string, cutIndex: number, ranges: BlockRange[] = findBlockRanges(text)): boolean {
     if (cutIndex <= 0) return false
     if (cutIndex >= text.length) return true
     if (isInsideImagePlaceholder(text, cutIndex)) return false
+    const range = blockRangeAt(ranges, cutIndex)
+    if (range) return isRangeCutSafe(text, range, cutIndex)
     const prev = text[cutIndex - 1]
     const next = text[cutIndex]
     if ((prev === '=' && next === '=') || (prev === '_' && next === '_') || (prev === '*' && next === '*')) return false
     return true
 }
 
-function charsPerLineForFontPx(fontPx: number, letterSpacingEm: number): number {
+function charsPerLineForFontPx(fontPx: number, letterSpacingEm: number, contentWidth: number): number {
     const charWidthPx = fontPx * (BASE_CHAR_EM + letterSpacingEm)
-    return Math.max(1, Math.floor(CONTENT_WIDTH / charWidthPx))
+    return Math.max(1, Math.floor(contentWidth / charWidthPx))
 }
 
-type Block =
-    | { kind: 'paragraph'; text: string }
-    | { kind: 'heading'; level: 1 | 2 | 3; text: string }
-    | { kind: 'image'; id: string }
-
-function parseTextBlocks(text: string): Block[] {
-    const blocks: Block[] = []
-    const lines = text.split(/\r?\n/)
-    let paragraphLines: string[] = []
-
-    const flushParagraph = () => {
-        const raw = paragraphLines.join('\n')
-        if (raw.trim()) blocks.push({ kind: 'paragraph', text: raw })
-        paragraphLines = []
-    }
+/**
+ * A code fence or table in raw text. Cuts may only fall between its body
+ * lines; the block is then closed on one card and reopened on the next.
+ */
+interface BlockRange {
+    kind: 'code' | 'table'
+    start: number
+    // First code line, or first row after the delimiter row
+    bodyStart: number
+    // Start of the closing fence line, or the end of the last row
+    bodyEnd: number
+    end: number
+    // Opening fence line, or the header and delimiter rows
+    reopen: string
+    // Closing fence; empty for tables
+    close: string
+}
 
-    for (const line of lines) {
-        if (!line.trim()) {
-            flushParagraph()
-            continue
-        }
-        const headingMatch = /^\s*(#{1,3})\s+(.+?)\s*$/.exec(line)
-        if (headingMatch) {
-            flushParagraph()
-            const level = headingMatch[1].length as 1 | 2 | 3
-            blocks.push({ kind: 'heading', level, text: headingMatch[2] })
-            continue
+function findBlockRanges(text: string): BlockRange[] {
+    const ranges: BlockRange[] = []
+    for (const block of flattenBlocks(parseBlocks(text))) {
+        if (block.kind === 'code') {
+            ranges.push({
+                kind: 'code',
+                start: block.start,
+                bodyStart: block.bodyStart,
+                bodyEnd: block.bodyEnd,
+                end: block.end,
+                reopen: text.slice(block.start, block.bodyStart).trim(),
+                close: block.fence,
+            })
+        } else if (block.kind === 'table') {
+            ranges.push({
+                kind: 'table',
+                start: block.start,
+                bodyStart: block.bodyStart,
+                bodyEnd: block.end,
+                end: block.end,
+                reopen: text.slice(block.start, block.bodyStart).trim().split('\n').map(line => line.trim()).join('\n'),
+                close: '',
+            })
         }
-        paragraphLines.push(line)
     }
+    return ranges
+}
 
-    flushParagraph()
-    return blocks
+function blockRangeAt(ranges: BlockRange[], index: number): BlockRange | undefined {
+    return ranges.find(range => index > range.start && index < range.end)
 }
 
-function parseBlocks(text: string): Block[] {
-    const blocks: Block[] = []
-    const regex = /\[IMG:([a-zA-Z0-9_-]+)\]/g
-    let lastIndex = 0
-    let match: RegExpExecArray | null
+// Inside a code block or table: only at the start of a body line, with body lines on both sides
+function isRangeCutSafe(text: string, range: BlockRange, index: number): boolean {
+    return text[index - 1] === '\n'
+        && index > range.bodyStart
+        && index < range.bodyEnd
+        && text.slice(index, range.bodyEnd).trim() !== ''
+}
 
-    while ((match = regex.exec(text)) !== null) {
-        const before = text.slice(lastIndex, match.index)
-        blocks.push(...parseTextBlocks(before))
-        blocks.push({ kind: 'image', id: match[1] })
-        lastIndex = regex.lastIndex
-    }
+/**
+ * Nearest safe cut at or before `index` when it falls inside a code block or
+ * table: the start of its line, else before the block, else after its line.
+ */
+function snapCut(text: string, index: number, ranges: BlockRange[]): number {
+    const range = blockRangeAt(ranges, index)
+    if (!range || isRangeCutSafe(text, range, index)) return index
+    const lineStart = text.lastIndexOf('\n', index - 1) + 1
+    if (isRangeCutSafe(text, range, lineStart)) return lineStart
+    if (text.slice(0, range.start).trim()) return range.start
+    const nextLine = text.indexOf('\n', index) + 1
+    return nextLine > 0 && isRangeCutSafe(text, range, nextLine) ? nextLine : range.end
+}
 
-    const tail = text.slice(lastIndex)
-    blocks.push(...parseTextBlocks(tail))
-    return blocks.filter(b => (b.kind !== 'paragraph' ? true : b.text.trim() !== ''))
+/**
+ * Split text in two at `index`. A cut between the lines of a code block or
+ * table closes the block in the first part and reopens it (the opening fence,
+ * or the header rows) in the second, so both render as code or as a table.
+ */
+export function splitTextAt(text: string, index: number): [string, string] {
+    const range = blockRangeAt(findBlockRanges(text), index)
+    const before = text.slice(0, index).trimEnd()
+    const after = text.slice(index)
+    if (range?.kind === 'code') {
+        return [`${before}\n${range.close}`, `${range.reopen}\n${after.replace(/^(?:[ \t]*\r?\n)+/, '')}`]
+    }
+    if (range?.kind === 'table') return [before, `${range.reopen}\n${after.trimStart()}`]
+    return [before, after.trimStart()]
 }
 
-function estimateParagraphHeightPx(text: string, typography: Typography): number {
-    const visualText = stripMarkdownMarkers(text)
-    const lineHeightPx = typography.fontSize * typography.lineHeight
-    const charsPerLine = charsPerLineForFontPx(typography.fontSize, typography.letterSpacing)
+// `visualText`: what the paragraph reads as, without markup
+function countParagraphLines(visualText: string, typography: Typography, contentWidth: number): number {
+    const charsPerLine = charsPerLineForFontPx(typography.fontSize, typography.letterSpacing, contentWidth)
 
     const lines = visualText.split(/\r?\n/)
     let wrappedLines = 0
@@ -127,85 +282,200 @@ function estimateParagraphHeightPx(text: string, typography: Typography): number
         wrappedLines += Math.max(1, Math.ceil(trimmed.length / charsPerLine))
     }
 
-    return wrappedLines * lineHeightPx
+    return wrappedLines
+}
+
+function estimateParagraphHeightPx(visualText: string, typography: Typography, contentWidth: number): number {
+    return countParagraphLines(visualText, typography, contentWidth) * typography.fontSize * typography.lineHeight
 }
 
-function estimateHeadingBlockPx(block: Extract<Block, { kind: 'heading' }>, typography: Typography, isFirst: boolean) {
+function estimateHeadingBlockPx(level: 1 | 2 | 3, visualText: string, typography: Typography, isFirst: boolean, contentWidth: number) {
     const base = typography.fontSize
-    const sizeMultiplier = block.level === 1 ? 1.5 : block.level === 2 ? 1.25 : 1.1
+    const sizeMultiplier = level === 1 ? 1.5 : level === 2 ? 1.25 : 1.1
     const headingFontPx = base * sizeMultiplier
-    const headingLineHeight = block.level === 1 ? 1.3 : block.level === 2 ? 1.4 : 1.5
-    const charsPerLine = charsPerLineForFontPx(headingFontPx, typography.letterSpacing)
-    const wrappedLines = Math.max(1, Math.ceil(block.text.trim().length / charsPerLine))
+    const headingLineHeight = level === 1 ? 1.3 : level === 2 ? 1.4 : 1.5
+    const charsPerLine = charsPerLineForFontPx(headingFontPx, typography.letterSpacing, contentWidth)
+    const wrappedLines = Math.max(1, Math.ceil(visualText.trim().length / charsPerLine))
     const heightPx = wrappedLines * headingFontPx * headingLineHeight
 
-    const marginTopEm = block.level === 1 ? 0.5 : block.level === 2 ? 0.4 : 0.3
-    const marginBottomEm = block.level === 1 ? 0.8 : block.level === 2 ? 0.6 : 0.5
+    const marginTopEm = level === 1 ? 0.5 : level === 2 ? 0.4 : 0.3
+    const marginBottomEm = level === 1 ? 0.8 : level === 2 ? 0.6 : 0.5
     const marginTopPx = isFirst ? 0 : headingFontPx * marginTopEm
     const marginBottomPx = headingFontPx * marginBottomEm
 
     return { heightPx, marginTopPx, marginBottomPx }
 }
 
-function estimateImageBlockPx(id: string, typography: Typography, imageMeta?: Map<string, ImageMeta>) {
+function estimateImageBlockPx(id: string, typography: Typography, contentWidth: number, imageMeta?: Map<string, ImageMeta>) {
     const meta = imageMeta?.get(id)
-    const aspectHeight = meta ? (CONTENT_WIDTH * meta.height) / Math.max(1, meta.width) : (CONTENT_WIDTH * 9) / 16
+    const aspectHeight = meta ? (contentWidth * meta.height) / Math.max(1, meta.width) : (contentWidth * 9) / 16
     const heightPx = Math.min(IMAGE_MAX_HEIGHT_PX, Math.round(aspectHeight))
     const marginPx = typography.fontSize * 0.8
     return { heightPx, marginTopPx: marginPx, marginBottomPx: marginPx }
 }
 
-function estimateCardContentHeightPx(text: string, typography: Typography, imageMeta?: Map<string, ImageMeta>): number {
-    const content = text.trim()
-    if (!content) return 0
+function scaleTypography(typography: Typography, em: number, lineHeight = typography.lineHeight): Typography {
+    return { ...typography, fontSize: typography.fontSize * em, lineHeight }
+}
 
-    const blocks = parseBlocks(content)
-    if (blocks.length === 0) return 0
+// Templated cards, following the `.card-layout-*` rules in index.css
+function estimateLayoutHeightPx(content: LayoutContent, typography: Typography, contentWidth: number): number {
+    const base = typography.fontSize
 
-    const paragraphMarginPx = typography.fontSize * typography.paragraphSpacing
-    const lastParagraphIndex = (() => {
-        for (let i = blocks.length - 1; i >= 0; i--) {
-            if (blocks[i]?.kind === 'paragraph') return i
-        }
-        return -1
-    })()
+    if (content.layout === 'quote') {
+        const mark = base * QUOTE_MARK_EM * 0.6
+        const text = estimateBlocksPx(content.blocks, scaleTypography(typography, QUOTE_TEXT_EM), contentWidth)
+        const attribution = content.attribution
+            ? base * ATTRIBUTION_EM * 1.2 + estimateParagraphHeightPx(inlineText(content.attribution), scaleTypography(typography, ATTRIBUTION_EM, 1.6), contentWidth)
+            : 0
+        return mark + text + attribution
+    }
+
+    if (content.layout === 'checklist') {
+        const title = content.title
+            ? (() => {
+                const h = estimateHeadingBlockPx(2, inlineText(content.title), typography, true, contentWidth)
+                return h.heightPx + h.marginBottomPx
+            })()
+            : 0
+        const itemWidth = contentWidth - base * CHECKLIST_NUMBER_EM
+        return content.items.reduce(
+            (sum, item) => sum + base * CHECKLIST_ITEM_GAP_EM + estimateParagraphHeightPx(inlineText(item.inlines), typography, itemWidth),
+            title
+        )
+    }
+
+    if (content.layout === 'flow') return estimateBlocksPx(content.blocks, typography, contentWidth)
 
+    // Label pill: one line plus vertical padding and border, then its margin
+    const label = base * HIGHLIGHT_LABEL_EM * (1.6 + 0.6 + 1.2) + 4
+    const sentence = estimateParagraphHeightPx(inlineText(content.sentence), scaleTypography(typography, HIGHLIGHT_TEXT_EM, HIGHLIGHT_LINE_HEIGHT), contentWidth)
+    const note = content.note
+        ? base * 0.85 * 1.2 + estimateBlocksPx(content.note, scaleTypography(typography, 0.85), contentWidth)
+        : 0
+    return label + sentence + note
+}
+
+interface BlockBox {
+    heightPx: number
+    marginTopPx: number
+    marginBottomPx: number
+}
+
+function estimateListBlockPx(block: Extract<Block, { kind: 'list' }>, typography: Typography, contentWidth: number): BlockBox {
+    const base = typography.fontSize
+    const itemWidth = contentWidth - base * (block.ordered ? ORDERED_INDENT_EM : BULLET_INDENT_EM)
+    const items = block.items.reduce((sum, item) => sum + estimateParagraphHeightPx(inlineText(item.inlines), typography, itemWidth), 0)
+    // The last item's margin collapses into the list's
+    const heightPx = items + base * LIST_ITEM_MARGIN_EM * (block.items.length - 1)
+    const marginPx = base * Math.max(LIST_MARGIN_EM, LIST_ITEM_MARGIN_EM)
+    return { heightPx, marginTopPx: base * LIST_MARGIN_EM, marginBottomPx: marginPx }
+}
+
+function estimateQuoteBlockPx(block: Extract<Block, { kind: 'blockquote' }>, typography: Typography, contentWidth: number): BlockBox {
+    const base = typography.fontSize
+    const innerWidth = contentWidth - base * QUOTE_PADDING_EM - QUOTE_BORDER_PX
+    const marginPx = base * QUOTE_MARGIN_EM
+    return { heightPx: estimateBlocksPx(block.blocks, typography, innerWidth), marginTopPx: marginPx, marginBottomPx: marginPx }
+}
+
+// Wrapped lines of `text` at `fontPx`, wide (CJK) characters at 1em and the rest at `narrowEm`
+function countWrappedLines(text: string, fontPx: number, narrowEm: number, spacingPx: number, width: number): number {
+    let lines = 0
+    for (const line of text.split(/\r?\n/)) {
+        let lineWidth = 0
+        for (const char of line) lineWidth += (WIDE_CHAR.test(char) ? fontPx : fontPx * narrowEm) + spacingPx
+        lines += Math.max(1, Math.ceil(lineWidth / Math.max(1, width)))
+    }
+    return lines
+}
+
+function estimateCodeBlockPx(block: Extract<Block, { kind: 'code' }>, typography: Typography, contentWidth: number): BlockBox {
+    const fontPx = typography.fontSize * CODE_FONT_EM
+    const spacingPx = typography.fontSize * typography.letterSpacing
+    const innerWidth = contentWidth - 2 * fontPx * CODE_PADDING_X_EM
+    const lines = block.text ? countWrappedLines(block.text, fontPx, MONO_CHAR_EM, spacingPx, innerWidth) : 0
+    const heightPx = lines * fontPx * CODE_LINE_HEIGHT + 2 * fontPx * CODE_PADDING_Y_EM
+    const marginPx = fontPx * CODE_MARGIN_EM
+    return { heightPx, marginTopPx: marginPx, marginBottomPx: marginPx }
+}
+
+function estimateTableBlockPx(block: Extract<Block, { kind: 'table' }>, typography: Typography, contentWidth: number): BlockBox {
+    const fontPx = typography.fontSize * TABLE_FONT_EM
+    const spacingPx = typography.fontSize * typography.letterSpacing
+    const rows = [block.header, ...block.rows].map(row => row.map(cell => inlineText(cell.inlines)))
+    const columns = block.header.length
+
+    // Auto table layout gives wider columns to longer content
+    const weights = Array.from({ length: columns }, (_, col) =>
+        Math.max(2, ...rows.map(row => (row[col] ?? '').length)))
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+    const cellPaddingX = 2 * fontPx * TABLE_CELL_PADDING_X_EM + TABLE_BORDER_PX
+
+    const rowHeights = rows.map(row => {
+        const lines = Math.max(1, ...weights.map((weight, col) => {
+            const width = contentWidth * weight / totalWeight - cellPaddingX
+            return countWrappedLines(row[col] ?? '', fontPx, BASE_CHAR_EM, spacingPx, width)
+        }))
+        return lines * fontPx * TABLE_LINE_HEIGHT + 2 * fontPx * TABLE_CELL_PADDING_Y_EM + TABLE_BORDER_PX
+    })
+    const heightPx = rowHeights.reduce((sum, h) => sum + h, TABLE_BORDER_PX)
+    const marginPx = fontPx * TABLE_MARGIN_EM
+    return { heightPx, marginTopPx: marginPx, marginBottomPx: marginPx }
+}
+
+function estimateBlockPx(block: ContentBlock, typography: Typography, isFirst: boolean, isLast: boolean, contentWidth: number, imageMeta?: Map<string, ImageMeta>): BlockBox {
+    switch (block.kind) {
+        case 'paragraph':
+            return {
+                heightPx: estimateParagraphHeightPx(inlineText(block.inlines), typography, contentWidth),
+                marginTopPx: 0,
+                // p:last-child has no bottom margin
+                marginBottomPx: isLast ? 0 : typography.fontSize * typography.paragraphSpacing,
+            }
+        case 'heading':
+            return estimateHeadingBlockPx(block.level, inlineText(block.inlines), typography, isFirst, contentWidth)
+        case 'image':
+            return estimateImageBlockPx(block.id, typography, contentWidth, imageMeta)
+        case 'list':
+            return estimateListBlockPx(block, typography, contentWidth)
+        case 'blockquote':
+            return estimateQuoteBlockPx(block, typography, contentWidth)
+        case 'code':
+            return estimateCodeBlockPx(block, typography, contentWidth)
+        case 'table':
+            return estimateTableBlockPx(block, typography, contentWidth)
+    }
+}
+
+function estimateBlocksPx(documentBlocks: Block[], typography: Typography, contentWidth: number, imageMeta?: Map<string, ImageMeta>): number {
+    const blocks = flattenBlocks(documentBlocks)
     let total = 0
     let prevBottomMargin = 0
 
-    for (let i = 0; i < blocks.length; i++) {
-        const block = blocks[i]
-
-        let marginTopPx = 0
-        let heightPx = 0
-        let marginBottomPx = 0
-
-        if (block.kind === 'paragraph') {
-            heightPx = estimateParagraphHeightPx(block.text, typography)
-            marginBottomPx = i !== lastParagraphIndex ? paragraphMarginPx : 0
-        } else if (block.kind === 'heading') {
-            const h = estimateHeadingBlockPx(block, typography, i === 0)
-            marginTopPx = h.marginTopPx
-            heightPx = h.heightPx
-            marginBottomPx = h.marginBottomPx
-        } else {
-            const img = estimateImageBlockPx(block.id, typography, imageMeta)
-            marginTopPx = img.marginTopPx
-            heightPx = img.heightPx
-            marginBottomPx = img.marginBottomPx
-        }
+    blocks.forEach((block, i) => {
+        const { marginTopPx, heightPx, marginBottomPx } = estimateBlockPx(block, typography, i === 0, i === blocks.length - 1, contentWidth, imageMeta)
+        // Adjacent vertical margins collapse
+        total += (i === 0 ? marginTopPx : Math.max(prevBottomMargin, marginTopPx)) + heightPx
+        prevBottomMargin = marginBottomPx
+    })
 
-        if (i === 0) {
-            total += marginTopPx + heightPx
-        } else {
-            total += Math.max(prevBottomMargin, marginTopPx) + heightPx
-        }
+    return total + prevBottomMargin
+}
 
-        prevBottomMargin = marginBottomPx
+function estimateCardContentHeightPx(text: string, projectTypography: Typography, contentWidth: number, imageMeta?: Map<string, ImageMeta>): number {
+    // A card directive changes the typography of its own card
+    const { overrides, body, blocks } = parseCardDocument(text)
+    const typography = effectiveTypography(projectTypography, overrides)
+    const content = body.trim()
+    if (!content) return 0
+
+    const layout = resolveCardLayout(content, overrides?.layout)
+    if (layout !== 'flow') {
+        return estimateLayoutHeightPx(parseLayoutContent(content, layout), typography, contentWidth)
     }
 
-    total += prevBottomMargin
-    return total
+    return estimateBlocksPx(blocks, typography, contentWidth, imageMeta)
 }
 
 function collectCandidateCuts(text: string, maxIndex: number): number[] {
@@ -240,16 +510,16 @@ function collectCandidateCuts(text: string, maxIndex: number): number[] {
     return dedup
 }
 
-function findMaxFittingCut(text: string, typography: Typography, imageMeta?: Map<string, ImageMeta>): number {
-    if (estimateCardContentHeightPx(text, typography, imageMeta) <= CONTENT_HEIGHT_LIMIT) return text.length
+function findMaxFittingCut(text: string, heightOf: ContentHeightMeasurer, heightLimit: number): number {
+    if (heightOf(text) <= heightLimit) return text.length
 
     let low = 1
     let high = text.length
     let best = 1
     while (low <= high) {
         const mid = Math.floor((low + high) / 2)
-        const height = estimateCardContentHeightPx(text.slice(0, mid).trimEnd(), typography, imageMeta)
-        if (height <= CONTENT_HEIGHT_LIMIT) {
+        const height = heightOf(text.slice(0, mid).trimEnd())
+        if (height <= heightLimit) {
             best = mid
             low = mid + 1
         } else {
@@ -260,89 +530,389 @@ function findMaxFittingCut(text: string, typography: Typography, imageMeta?: Map
     return best
 }
 
-function chooseCut(text: string, typography: Typography, imageMeta?: Map<string, ImageMeta>, minCutIndex = 1): number {
+// Whether a break may fall at an offset of the text being paginated, on a
+// card that starts at `cardStart`
+type CutRule = (cut: number, cardStart?: number) => boolean
+
+/**
+ * Check cuts in `text` against the pagination rules. Line counts come from
+ * the estimator's wrapping, at the typography of the card (its directive
+ * included).
+ */
+function createCutRule(text: string, rules: PaginationRules, typography: Typography, contentWidth: number): CutRule {
+    const { overrides, blocks } = parseCardDocument(text)
+    const cardTypography = effectiveTypography(typography, overrides)
+    const linesOf = (start: number, end: number) => countParagraphLines(markupText(text.slice(start, end).trim()), cardTypography, contentWidth)
+
+    return (cut: number, cardStart = 0) => {
+        const before = blocks.filter(block => block.start < cut)
+        const current = before[before.length - 1]
+        if (!current) return true
+
+        if (current.kind === 'keep' && cut < current.end) return false
+
+        if (current.kind === 'paragraph' && cut < current.end) {
+            // Lines of a paragraph continued from the previous card don't count
+            const start = Math.max(current.start, cardStart)
+            if (linesOf(start, cut) < rules.orphanLines || linesOf(cut, current.end) < rules.widowLines) return false
+        }
+
+        // The last heading before the break needs the start of what follows it
+        let heading = before.length - 1
+        while (heading >= 0 && before[heading].kind !== 'heading') heading--
+        if (heading === -1) return true
+        const next = before[heading + 1]
+        if (!next) return false
+        if (next === current && next.kind === 'paragraph' && cut < next.end) {
+            const needed = Math.min(rules.keepWithNextLines, linesOf(next.start, next.end))
+            if (linesOf(next.start, cut) < needed) return false
+        }
+        return true
+    }
+}
+
+function chooseCut(text: string, heightOf: ContentHeightMeasurer, heightLimit: number, minCutIndex = 1, rule?: CutRule): number {
     const trimmedEnd = text.trimEnd()
     if (!trimmedEnd) return 0
-    if (estimateCardContentHeightPx(trimmedEnd, typography, imageMeta) <= CONTENT_HEIGHT_LIMIT) return trimmedEnd.length
+    if (heightOf(trimmedEnd) <= heightLimit) return trimmedEnd.length
 
-    const maxFitRaw = findMaxFittingCut(trimmedEnd, typography, imageMeta)
+    const maxFitRaw = findMaxFittingCut(trimmedEnd, heightOf, heightLimit)
     const maxFit = Math.max(minCutIndex, maxFitRaw)
-    const maxFitHeight = estimateCardContentHeightPx(trimmedEnd.slice(0, maxFit).trimEnd(), typography, imageMeta)
+    const maxFitHeight = heightOf(trimmedEnd.slice(0, maxFit).trimEnd())
 
+    const ranges = findBlockRanges(trimmedEnd)
     const candidates = collectCandidateCuts(trimmedEnd, maxFit)
     const windowStart = Math.max(minCutIndex, Math.max(maxFit - 2500, Math.floor(maxFit * 0.7)))
 
-    let bestCandidate = -1
-    let bestHeight = -1
+    // Height of the content before a cut, or -1 when the cut is unusable
+    const heightBefore = (candidate: number, accepts: CutRule) => {
+        if (candidate < minCutIndex || !isCutSafe(trimmedEnd, candidate, ranges) || !accepts(candidate)) return -1
+        const left = trimmedEnd.slice(0, candidate).trimEnd()
+        if (!left) return -1
+        const h = heightOf(left)
+        return h > heightLimit ? -1 : h
+    }
+
+    // Fullest cut in the window
+    const bestInWindow = (accepts: CutRule) => {
+        let bestCandidate = -1
+        let bestHeight = -1
+        for (let i = candidates.length - 1; i >= 0; i--) {
+            const candidate = candidates[i]
+            if (candidate < windowStart) break
+            const h = heightBefore(candidate, accepts)
+            if (h === -1) continue
+
+            if (h > bestHeight || (h === bestHeight && candidate > bestCandidate)) {
+                bestHeight = h
+                bestCandidate = candidate
+                if (h >= heightLimit * 0.985) break
+            }
+        }
+        return { candidate: bestCandidate, height: bestHeight }
+    }
+
+    // The raw fitting cut may fall inside a table row or code line
+    const fallback = snapCut(trimmedEnd, maxFit, ranges)
+    const unruled = () => {
+        const best = bestInWindow(() => true)
+        if (best.candidate === -1 || best.height < maxFitHeight * 0.92) return fallback
+        return Math.max(minCutIndex, best.candidate)
+    }
+    if (!rule) return unruled()
 
+    const best = bestInWindow(rule)
+    if (best.candidate !== -1 && best.height >= maxFitHeight * 0.92) return Math.max(minCutIndex, best.candidate)
+    // Back off from the raw fitting cut, e.g. to leave widow lines for the next card
+    for (let cut = fallback; cut > Math.max(windowStart, best.candidate); cut--) {
+        if (isCutSafe(trimmedEnd, cut, ranges) && rule(cut) && heightBefore(cut, rule) !== -1) return cut
+    }
+    if (best.candidate !== -1) return Math.max(minCutIndex, best.candidate)
+
+    // Nothing in the window keeps the rules: break earlier, before the heading or group
     for (let i = candidates.length - 1; i >= 0; i--) {
         const candidate = candidates[i]
-        if (candidate < windowStart) break
-        if (candidate < minCutIndex) continue
-        if (!isCutSafe(trimmedEnd, candidate)) continue
+        if (candidate >= windowStart) continue
+        if (candidate < minCutIndex) break
+        if (heightBefore(candidate, rule) !== -1) return candidate
+    }
 
-        const left = trimmedEnd.slice(0, candidate).trimEnd()
-        if (!left) continue
+    // The rules can't be kept, e.g. a keep-together group taller than a card
+    return unruled()
+}
 
-        const h = estimateCardContentHeightPx(left, typography, imageMeta)
-        if (h > CONTENT_HEIGHT_LIMIT) continue
+// ===== PAGINATION STRATEGIES =====
+
+interface PaginationContext {
+    // Text without `---` markers
+    text: string
+    ranges: BlockRange[]
+    heightOf: ContentHeightMeasurer
+    heightLimit: number
+    rules: PaginationRules
+    typography: Typography
+    contentWidth: number
+    // Rules over the whole text
+    rule: CutRule
+}
 
-        if (h > bestHeight || (h === bestHeight && candidate > bestCandidate)) {
-            bestHeight = h
-            bestCandidate = candidate
-            if (h >= CONTENT_HEIGHT_LIMIT * 0.985) break
-        }
+function createPaginationContext(
+    text: string,
+    typography: Typography,
+    imageMeta: Map<string, ImageMeta> | undefined,
+    options: PaginationOptions
+): PaginationContext {
+    const format = options.format ?? DEFAULT_CANVAS_FORMAT
+    const rules = options.rules ?? DEFAULT_PAGINATION_RULES
+    const contentWidth = getContentBox(format).width
+    // Strip any existing --- markers to get clean text
+    const cleanText = replaceCardDelimiters(text, '').replace(/\n{3,}/g, '\n\n')
+    return {
+        text: cleanText,
+        ranges: findBlockRanges(cleanText),
+        heightOf: options.measureHeight ?? createEstimateMeasurer(typography, imageMeta, format),
+        heightLimit: contentHeightLimit(format),
+        rules,
+        typography,
+        contentWidth,
+        rule: createCutRule(cleanText, rules, typography, contentWidth),
     }
+}
 
-    if (bestCandidate === -1) return maxFit
-    if (bestHeight < maxFitHeight * 0.92) return maxFit
+// Text of the card from `start` to `end`, reopening a code block or table it starts inside
+function cardSegment(context: PaginationContext, start: number, end: number): string {
+    const body = context.text.slice(start, end).replace(/^\s*\n/, '').trimEnd()
+    const range = blockRangeAt(context.ranges, start)
+    return range ? `${range.reopen}\n${body}` : body
+}
 
-    return Math.max(minCutIndex, bestCandidate)
+function cardFillCost(height: number, heightLimit: number): number {
+    const unused = (heightLimit - height) / heightLimit
+    return FILL_WEIGHT * unused * unused
 }
 
-// ===== NEW PUBLIC FUNCTIONS =====
+function breakPenalty(context: PaginationContext, cut: number, cardStart: number): number {
+    const { text } = context
+    if (!context.rule(cut, cardStart)) return BREAK_PENALTIES.rule
+    let i = cut
+    let newlines = 0
+    while (i > 0 && /\s/.test(text[i - 1])) {
+        if (text[i - 1] === '\n') newlines++
+        i--
+    }
+    if (newlines >= 2) return BREAK_PENALTIES.paragraph
+    if (newlines === 1) return BREAK_PENALTIES.line
+    return /[。！？!?.]/.test(text[i - 1] ?? '') ? BREAK_PENALTIES.sentence : BREAK_PENALTIES.midSentence
+}
 
 /**
- * Calculate optimal page break positions for the given text and typography.
- * Returns array of character indices where `---` should be inserted.
+ * The break greedy pagination makes for the card starting at `cursor`, or -1
+ * when the rest of the text fits on it.
  */
-export function calculateOptimalPageBreaks(
-    text: string,
-    typography: Typography = DEFAULT_TYPOGRAPHY,
-    imageMeta?: Map<string, ImageMeta>
-): number[] {
-    // First, strip any existing --- markers to get clean text
-    const cleanText = text.replace(/^[ \t]*---[ \t]*$/gm, '').replace(/\n{3,}/g, '\n\n')
+function greedyBreak(context: PaginationContext, cursor: number): number {
+    const { text, ranges, heightOf, heightLimit } = context
+    const cardStart = cursor
+    const fits = (cut: number) => heightOf(cardSegment(context, cardStart, cut)) <= heightLimit
+    // Reopened code fence or table header the card starts with
+    const range = blockRangeAt(ranges, cursor)
+    const carry = range ? `${range.reopen}\n` : ''
+
+    // Skip leading whitespace
+    while (cursor < text.length && /\s/.test(text[cursor]!)) cursor++
+    if (cursor >= text.length) return -1
+
+    const remaining = carry + text.slice(cursor)
+    const rule = createCutRule(remaining, context.rules, context.typography, context.contentWidth)
+    const cutIndex = chooseCut(remaining, heightOf, heightLimit, carry.length + 1, rule)
+
+    if (cutIndex <= carry.length || cutIndex >= remaining.length) return -1
+
+    // Find a good break point (prefer newline boundaries)
+    let breakPos = cursor + cutIndex - carry.length
+
+    // Look for a nearby newline to break cleanly
+    const nearbyNewline = text.lastIndexOf('\n', breakPos)
+    if (
+        nearbyNewline > cursor
+        && breakPos - nearbyNewline < 200
+        && isCutSafe(text, nearbyNewline + 1, ranges)
+        && (!rule(cutIndex) || rule(nearbyNewline + 1 - cursor + carry.length))
+        && fits(nearbyNewline + 1)
+    ) {
+        breakPos = nearbyNewline + 1
+    }
+
+    // Heights don't grow with every prefix (a list alone on a card takes the
+    // checklist template), so the cut can still overflow: back off to the
+    // last candidate that fits
+    if (!fits(breakPos)) {
+        const fitting = collectCandidateCuts(text, breakPos - 1)
+            .reverse()
+            .find(cut => cut > cursor && isCutSafe(text, cut, ranges) && fits(cut))
+        if (fitting !== undefined) breakPos = fitting
+    }
+
+    return breakPos
+}
 
+function paginateGreedy(context: PaginationContext): number[] {
     const breakPositions: number[] = []
     let cursor = 0
+    while (cursor < context.text.length) {
+        const breakPos = greedyBreak(context, cursor)
+        if (breakPos === -1) break
+        breakPositions.push(breakPos)
+        cursor = breakPos
+    }
+    return breakPositions
+}
 
-    while (cursor < cleanText.length) {
-        // Skip leading whitespace
-        while (cursor < cleanText.length && /\s/.test(cleanText[cursor]!)) cursor++
-        if (cursor >= cleanText.length) break
-
-        const remaining = cleanText.slice(cursor)
-        const cutIndex = chooseCut(remaining, typography, imageMeta)
+/**
+ * Cheapest breaks by dynamic programming over the candidate cuts: each card
+ * costs CARD_COST plus its unused height squared, each break its penalty.
+ * Cards under BALANCED_MIN_FILL are only tried when nothing fuller fits, and
+ * runs of text with no candidate that fits get the greedy cut.
+ */
+function paginateBalanced(context: PaginationContext): number[] {
+    const { text, heightOf, heightLimit } = context
+    const end = text.trimEnd().length
+    if (heightOf(cardSegment(context, 0, end)) <= heightLimit) return []
+
+    const positions = [
+        0,
+        ...collectCandidateCuts(text, end).filter(cut => cut < end && isCutSafe(text, cut, context.ranges)),
+        end,
+    ]
+    // Cheapest way to reach each position, and the break before it
+    const best = new Map<number, { cost: number; previous: number }>([[0, { cost: 0, previous: -1 }]])
+    const relax = (from: number, to: number, height: number) => {
+        const penalty = to < end ? breakPenalty(context, to, from) : 0
+        const cost = best.get(from)!.cost + CARD_COST + cardFillCost(height, heightLimit) + penalty
+        const current = best.get(to)
+        if (!current || cost < current.cost) best.set(to, { cost, previous: from })
+    }
 
-        if (cutIndex <= 0 || cutIndex >= remaining.length) break
+    let measurements = 0
+    for (let i = 0; i < positions.length - 1; i++) {
+        const start = positions[i]
+        if (!best.has(start)) continue
+        if (measurements > BALANCED_MAX_MEASUREMENTS) return paginateGreedy(context)
+
+        const heights = new Map<number, number>()
+        const heightTo = (j: number) => {
+            if (!heights.has(j)) {
+                measurements++
+                const cut = positions[j]
+                heights.set(j, text.slice(start, cut).trim() ? heightOf(cardSegment(context, start, cut)) : 0)
+            }
+            return heights.get(j)!
+        }
 
-        // Find a good break point (prefer newline boundaries)
-        let breakPos = cursor + cutIndex
+        // Farthest position the card fits to: gallop past it, then bisect
+        let low = i
+        let high = i + 1
+        while (high < positions.length && heightTo(high) <= heightLimit) {
+            low = high
+            high = Math.min(positions.length, i + (high - i) * 2)
+        }
+        while (high - low > 1) {
+            const middle = Math.floor((low + high) / 2)
+            if (heightTo(middle) <= heightLimit) low = middle
+            else high = middle
+        }
 
-        // Look for a nearby newline to break cleanly
-        const nearbyNewline = cleanText.lastIndexOf('\n', breakPos)
-        if (nearbyNewline > cursor && breakPos - nearbyNewline < 200) {
-            breakPos = nearbyNewline + 1
+        // Cards ending there and earlier, down to BALANCED_MIN_FILL
+        let fitted = false
+        for (let j = low; j > i; j--) {
+            const height = heightTo(j)
+            if (height === 0 || height > heightLimit) continue
+            relax(start, positions[j], height)
+            fitted = true
+            if (height < heightLimit * BALANCED_MIN_FILL) break
         }
 
-        breakPositions.push(breakPos)
-        cursor = breakPos
+        if (!fitted) {
+            const forced = greedyBreak(context, start)
+            if (forced <= start || forced >= end) continue
+            if (!positions.includes(forced)) {
+                let at = i + 1
+                while (at < positions.length && positions[at] < forced) at++
+                positions.splice(at, 0, forced)
+            }
+            relax(start, forced, heightOf(cardSegment(context, start, forced)))
+        }
     }
 
+    // Nothing reached the end (e.g. unbreakable text): fall back to greedy
+    if (!best.has(end)) return paginateGreedy(context)
+
+    const breakPositions: number[] = []
+    for (let position = best.get(end)!.previous; position > 0; position = best.get(position)!.previous) {
+        breakPositions.unshift(position)
+    }
     return breakPositions
 }
 
+// ===== NEW PUBLIC FUNCTIONS =====
+
+/**
+ * Height function backed by the character-count estimator.
+ */
+export function createEstimateMeasurer(
+    typography: Typography = DEFAULT_TYPOGRAPHY,
+    imageMeta?: Map<string, ImageMeta>,
+    format: CanvasFormat = DEFAULT_CANVAS_FORMAT
+): ContentHeightMeasurer {
+    const contentWidth = getContentBox(format).width
+    return (text: string) => estimateCardContentHeightPx(text, typography, contentWidth, imageMeta)
+}
+
+/**
+ * Calculate optimal page break positions for the given text and typography.
+ * Heights come from `options.measureHeight` when given, otherwise from the estimator.
+ * Breaks follow `options.rules` wherever some fitting cut allows it, and are
+ * placed by `options.strategy` (greedy by default; balanced needs the estimator).
+ * Returns array of character indices where `---` should be inserted.
+ */
+export function calculateOptimalPageBreaks(
+    text: string,
+    typography: Typography = DEFAULT_TYPOGRAPHY,
+    imageMeta?: Map<string, ImageMeta>,
+    options: PaginationOptions = {}
+): number[] {
+    const context = createPaginationContext(text, typography, imageMeta, options)
+    return options.strategy === 'balanced' && !options.measureHeight ? paginateBalanced(context) : paginateGreedy(context)
+}
+
+/**
+ * Score page breaks of `text` (as returned by `calculateOptimalPageBreaks`
+ * for the same text and options) with the cost the balanced strategy
+ * minimises, so strategies can be compared.
+ */
+export function scorePageBreaks(
+    text: string,
+    breakPositions: number[],
+    typography: Typography = DEFAULT_TYPOGRAPHY,
+    imageMeta?: Map<string, ImageMeta>,
+    options: PaginationOptions = {}
+): PaginationScore {
+    const context = createPaginationContext(text, typography, imageMeta, options)
+    const end = context.text.trimEnd().length
+    const starts = [0, ...breakPositions]
+    const score: PaginationScore = { cards: 0, overflowing: 0, fill: 0, breaks: 0, total: 0 }
+
+    starts.forEach((start, i) => {
+        const cut = i + 1 < starts.length ? starts[i + 1] : end
+        const height = context.heightOf(cardSegment(context, start, cut))
+        score.cards++
+        if (height > context.heightLimit) score.overflowing++
+        score.fill += cardFillCost(height, context.heightLimit)
+        if (cut < end) score.breaks += breakPenalty(context, cut, start)
+    })
+    score.total = score.cards * CARD_COST + score.fill + score.breaks
+    return score
+}
+
 /**
  * Insert `---` page break markers at the specified positions.
  * Returns the new text with markers inserted.
@@ -357,51 +927,322 @@ export function insertPageBreaks(text: string, breakPositions: number[]): string
     for (const pos of sorted) {
         if (pos <= 0 || pos >= result.length) continue
 
-        // Insert --- on its own line
-        const before = result.slice(0, pos).trimEnd()
-        const after = result.slice(pos).trimStart()
+        // Insert --- on its own line, closing and reopening a code block or table cut in two
+        const [before, after] = splitTextAt(result, pos)
         result = before + '\n\n---\n\n' + after
     }
 
     return result
 }
 
+// Text with each `---` delimiter line, and the line breaks around it with `padded`, replaced
+function replaceCardDelimiters(text: string, replacement: string, padded = false): string {
+    let result = ''
+    let lastIndex = 0
+    for (let { start, end } of findCardDelimiters(text)) {
+        if (padded) {
+            while (start > lastIndex && text[start - 1] === '\n') start--
+            while (text[end] === '\n') end++
+        }
+        result += text.slice(lastIndex, start) + replacement
+        lastIndex = end
+    }
+    return result + text.slice(lastIndex)
+}
+
 /**
  * Remove all --- page break markers from text.
  */
 export function removePageBreaks(text: string): string {
-    return text.replace(/\n*^[ \t]*---[ \t]*$\n*/gm, '\n\n').replace(/\n{3,}/g, '\n\n').trim()
+    return replaceCardDelimiters(text, '\n\n', true).replace(/\n{3,}/g, '\n\n').trim()
 }
 
 /**
  * Recalculate and update page break positions in text.
  * Preserves content while adjusting --- positions for new typography.
+ * Cards with a `@card` directive (a layout template included) are laid out by
+ * hand and kept as they are; the runs of cards between them are re-paginated,
+ * templates detected from the content along with flow text.
  */
 export function recalculatePageBreaks(
     text: string,
     typography: Typography = DEFAULT_TYPOGRAPHY,
-    imageMeta?: Map<string, ImageMeta>
+    imageMeta?: Map<string, ImageMeta>,
+    options: PaginationOptions = {}
 ): string {
-    const cleanText = removePageBreaks(text)
-    const breakPositions = calculateOptimalPageBreaks(cleanText, typography, imageMeta)
-    return insertPageBreaks(cleanText, breakPositions)
+    const cards: string[] = []
+    let run: string[] = []
+    const flushRun = () => {
+        if (run.length === 0) return
+        const cleanText = removePageBreaks(joinCardParts(run))
+        const breakPositions = calculateOptimalPageBreaks(cleanText, typography, imageMeta, options)
+        cards.push(insertPageBreaks(cleanText, breakPositions))
+        run = []
+    }
+
+    for (const part of splitCardParts(text)) {
+        if (hasCardDirective(part)) {
+            flushRun()
+            cards.push(part)
+        } else {
+            run.push(part)
+        }
+    }
+    flushRun()
+    return joinCardParts(cards)
+}
+
+// Settings the card count fit searches, largest first; text under 32px is hard to read on a phone
+export const FIT_TYPOGRAPHY_RANGES: Record<'fontSize' | 'lineHeight' | 'paragraphSpacing', { min: number; max: number; step: number }> = {
+    fontSize: { min: 32, max: 60, step: 2 },
+    lineHeight: { min: 1.2, max: 2.5, step: 0.1 },
+    paragraphSpacing: { min: 0.5, max: 3, step: 0.1 },
+}
+
+/**
+ * Find the largest typography that paginates `text` into exactly `cardCount`
+ * cards with the estimator, and the text paginated with it.
+ *
+ * Settings are solved one at a time (font size, then line height, then
+ * paragraph spacing), each set to the largest value that doesn't exceed the
+ * count; a card count grows with every setting, so each is a binary search.
+ * Letter spacing is kept. The search paginates greedily, which is fast; the
+ * result is paginated with `options.strategy` unless that misses the count.
+ * When no settings give exactly `cardCount` cards, the closest found is returned.
+ */
+export function fitTypographyToCardCount(
+    text: string,
+    cardCount: number,
+    typography: Typography = DEFAULT_TYPOGRAPHY,
+    imageMeta?: Map<string, ImageMeta>,
+    options: PaginationOptions = {}
+): CardCountFit {
+    const paginate = (candidate: Typography, strategy?: PaginationStrategy): CardCountFit => {
+        const paginated = recalculatePageBreaks(text, candidate, imageMeta, { format: options.format, rules: options.rules, strategy })
+        return { typography: candidate, text: paginated, cards: splitCardParts(paginated).length }
+    }
+
+    // Largest value of one setting whose pagination has at most cardCount cards (the smallest when none does)
+    const solve = (current: Typography, key: keyof typeof FIT_TYPOGRAPHY_RANGES): CardCountFit => {
+        const { min, max, step } = FIT_TYPOGRAPHY_RANGES[key]
+        const withValue = (index: number) => paginate({ ...current, [key]: +(min + index * step).toFixed(2) }, 'greedy')
+
+        let low = 0
+        let high = Math.round((max - min) / step)
+        let found = withValue(low)
+        if (found.cards > cardCount) return found
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2)
+            const candidate = withValue(middle)
+            if (candidate.cards <= cardCount) {
+                low = middle
+                found = candidate
+            } else {
+                high = middle - 1
+            }
+        }
+        return found
+    }
+
+    let fit = solve(typography, 'fontSize')
+    if (fit.cards !== cardCount) fit = solve(fit.typography, 'lineHeight')
+    if (fit.cards !== cardCount) fit = solve(fit.typography, 'paragraphSpacing')
+
+    if (options.strategy !== 'balanced') return fit
+    const balanced = paginate(fit.typography, options.strategy)
+    return balanced.cards === fit.cards ? balanced : fit
+}
+
+/**
+ * Find where an overflowing card's text should be cut, choosing the same cut
+ * auto pagination would. Returns -1 when the text already fits.
+ */
+export function findOverflowCut(
+    text: string,
+    heightOf: ContentHeightMeasurer,
+    format: CanvasFormat = DEFAULT_CANVAS_FORMAT,
+    typography: Typography = DEFAULT_TYPOGRAPHY,
+    rules: PaginationRules = DEFAULT_PAGINATION_RULES
+): number {
+    const trimmedEnd = text.trimEnd()
+    const heightLimit = contentHeightLimit(format)
+    if (heightOf(trimmedEnd) <= heightLimit) return -1
+    const rule = createCutRule(trimmedEnd, rules, typography, getContentBox(format).width)
+    const cut = chooseCut(trimmedEnd, heightOf, heightLimit, 1, rule)
+    return cut > 0 && cut < trimmedEnd.length ? cut : -1
+}
+
+/**
+ * Split text into the trimmed contents between `---` markers (empty parts dropped).
+ */
+export function splitCardParts(text: string): string[] {
+    const parts: string[] = []
+    let lastIndex = 0
+
+    for (const delimiter of findCardDelimiters(text)) {
+        const content = text.slice(lastIndex, delimiter.start).trim()
+        if (content) parts.push(content)
+        lastIndex = delimiter.end
+        // Skip trailing newline after ---
+        if (text[lastIndex] === '\n') lastIndex++
+    }
+
+    const remaining = text.slice(lastIndex).trim()
+    if (remaining) parts.push(remaining)
+    return parts
+}
+
+/**
+ * Rebuild text from card contents with `---` between them.
+ */
+export function joinCardParts(parts: string[]): string {
+    return parts.join('\n\n---\n\n')
+}
+
+/**
+ * Move card `from` to position `to` (an index in the list after the move).
+ */
+export function moveCardPart(parts: string[], from: number, to: number): string[] {
+    const next = [...parts]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    return next
+}
+
+/**
+ * Merge card `index` with the card after it into one card, which keeps the
+ * first card's `@card` directive.
+ */
+export function mergeCardParts(parts: string[], index: number): string[] {
+    if (index < 0 || index >= parts.length - 1) return parts
+    const next = [...parts]
+    next.splice(index, 2, `${parts[index]}\n\n${parseCardText(parts[index + 1]).body.trim()}`)
+    return next
+}
+
+/**
+ * Split card `index` into two at `offset` in its text; no-op when either side would be empty.
+ */
+export function splitCardPart(parts: string[], index: number, offset: number): string[] {
+    const text = parts[index]
+    if (text === undefined) return parts
+    const [before, after] = splitTextAt(text, offset).map(part => part.trim())
+    if (!before || !after) return parts
+    const next = [...parts]
+    next.splice(index, 1, before, after)
+    return next
 }
 
 // ===== SIMPLIFIED splitToCards =====
 
+// Shared prefix or suffix (in characters) that identifies an edited card
+const ANCHOR_MIN_CHARS = 12
+
+function commonPrefixLength(a: string, b: string): number {
+    const max = Math.min(a.length, b.length)
+    let i = 0
+    while (i < max && a[i] === b[i]) i++
+    return i
+}
+
+function commonSuffixLength(a: string, b: string): number {
+    const max = Math.min(a.length, b.length)
+    let i = 0
+    while (i < max && a[a.length - 1 - i] === b[b.length - 1 - i]) i++
+    return i
+}
+
+/**
+ * How strongly an edited card is anchored to a previous one: the longer of the
+ * unchanged start and end. Typing changes the middle, and re-pagination moves
+ * text across one edge only, so one of the two survives.
+ */
+function anchorScore(previous: string, next: string): number {
+    const anchor = Math.max(commonPrefixLength(previous, next), commonSuffixLength(previous, next))
+    const needed = Math.min(ANCHOR_MIN_CHARS, previous.length, next.length)
+    return anchor >= needed && anchor > 0 ? anchor : 0
+}
+
+/**
+ * Give new cards the ids of the previous cards they came from. Unchanged cards
+ * match by text, in order first and then out of order (cards that swapped
+ * places); each run of changed cards between two in-order unchanged ones is
+ * then matched by anchor, and a lone changed card takes the lone previous one.
+ * Cards with no counterpart keep their fresh ids.
+ */
+function carryCardIds(cards: Card[], previous: Card[]): Card[] {
+    if (previous.length === 0) return cards
+
+    // Exact matches, in order, so unchanged cards keep their ids
+    const ids: (string | undefined)[] = cards.map(() => undefined)
+    const byText = new Map<string, number[]>()
+    previous.forEach((card, i) => byText.set(card.text, [...(byText.get(card.text) ?? []), i]))
+    const matchedPrevious: number[] = cards.map(() => -1)
+    let lastPrevious = -1
+    cards.forEach((card, i) => {
+        const candidates = byText.get(card.text)
+        const index = candidates?.find(j => j > lastPrevious)
+        if (index === undefined) return
+        ids[i] = previous[index].id
+        matchedPrevious[i] = index
+        lastPrevious = index
+    })
+
+    // Unchanged cards that moved, e.g. swapped or restored by undoing a reorder
+    const usedPrevious = new Set(matchedPrevious.filter(index => index !== -1))
+    cards.forEach((card, i) => {
+        if (ids[i] !== undefined) return
+        const index = byText.get(card.text)?.find(j => !usedPrevious.has(j))
+        if (index === undefined) return
+        ids[i] = previous[index].id
+        usedPrevious.add(index)
+    })
+
+    // Changed cards, one gap between in-order exact matches at a time
+    let gapStart = 0
+    let previousStart = 0
+    for (let i = 0; i <= cards.length; i++) {
+        if (i < cards.length && matchedPrevious[i] === -1) continue
+        const previousEnd = i < cards.length ? matchedPrevious[i] : previous.length
+        const newIndexes = Array.from({ length: i - gapStart }, (_, k) => gapStart + k)
+            .filter(n => ids[n] === undefined)
+        const oldIndexes = Array.from({ length: Math.max(0, previousEnd - previousStart) }, (_, k) => previousStart + k)
+            .filter(o => !usedPrevious.has(o))
+
+        if (newIndexes.length === 1 && oldIndexes.length === 1) {
+            ids[newIndexes[0]] = previous[oldIndexes[0]].id
+        } else {
+            const pairs = newIndexes.flatMap(n => oldIndexes.map(o => ({ n, o, score: anchorScore(previous[o].text, cards[n].text) })))
+                .filter(pair => pair.score > 0)
+                .sort((a, b) => b.score - a.score)
+            for (const { n, o } of pairs) {
+                if (ids[n] !== undefined || usedPrevious.has(o)) continue
+                ids[n] = previous[o].id
+                usedPrevious.add(o)
+            }
+        }
+
+        gapStart = i + 1
+        previousStart = previousEnd + 1
+    }
+
+    return cards.map((card, i) => {
+        const id = ids[i]
+        return id ? { ...card, id } : card
+    })
+}
+
 /**
  * Split text into cards based ONLY on --- markers.
  * No automatic height-based splitting - just splits at each ---.
+ * With `previous`, cards keep the ids of the cards they were edited from.
  */
-export function splitToCards(text: string): Card[] {
+export function splitToCards(text: string, previous: Card[] = []): Card[] {
     const cards: Card[] = []
-    const delimiterRegex = /^[ \t]*---[ \t]*$/gm
-
     let lastIndex = 0
-    let match: RegExpExecArray | null
 
-    while ((match = delimiterRegex.exec(text)) !== null) {
-        const lineStart = match.index
+    for (const delimiter of findCardDelimiters(text)) {
+        const lineStart = delimiter.start
         const content = text.slice(lastIndex, lineStart).trim()
 
         if (content) {
@@ -413,7 +1254,7 @@ export function splitToCards(text: string): Card[] {
         }
 
         // Skip past the delimiter and any trailing newline
-        let delimiterEnd = match.index + match[0].length
+        let delimiterEnd = delimiter.end
         if (text[delimiterEnd] === '\r' && text[delimiterEnd + 1] === '\n') delimiterEnd += 2
         else if (text[delimiterEnd] === '\n') delimiterEnd += 1
 
@@ -435,5 +1276,5 @@ export function splitToCards(text: string): Card[] {
         cards.push({ id: nanoid(), text: text.trim() || '', startOffset: 0 })
     }
 
-    return cards
+    return carryCardIds(cards, previous)
 }
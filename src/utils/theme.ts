@@ -0,0 +1,194 @@
+import type { CSSProperties } from 'react'
+
+/**
+ * Card themes: one definition drives the preview, the hidden export cards and
+ * the exported images, via inline styles and CSS variables on `.card-preview`.
+ */
+
+export interface ThemeGradient {
+    from: string
+    to: string
+    // Degrees, as in `linear-gradient()`
+    angle: number
+}
+
+export interface ThemeTexture {
+    url: string
+    // Percent of the card width
+    size: number
+    opacity: number
+    filter?: string
+}
+
+export interface ThemeGrid {
+    color: string
+    size: number
+    opacity: number
+}
+
+export interface ThemeBackground {
+    color: string
+    gradient?: ThemeGradient
+    texture?: ThemeTexture
+    grid?: ThemeGrid
+}
+
+export interface Theme {
+    id: string
+    name: string
+    background: ThemeBackground
+    textColor: string
+    headingColors: { h1: string; h2: string; h3: string }
+    markColor: string
+    strongColor: string
+    fontFamily: string
+    headingFontFamily: string
+    // Font of ==highlights==; follows the body font when unset
+    markFontFamily?: string
+}
+
+export const SERIF_FONT_STACK = '"Source Han Serif CN", "PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Serif SC", serif'
+export const SANS_FONT_STACK = '"PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans SC", system-ui, sans-serif'
+export const KAI_FONT_STACK = '"Kaiti SC", "STKaiti", "KaiTi", "Source Han Serif CN", serif'
+
+export const FONT_OPTIONS: { label: string; value: string }[] = [
+    { label: '思源宋体', value: SERIF_FONT_STACK },
+    { label: '系统黑体', value: SANS_FONT_STACK },
+    { label: '楷体', value: KAI_FONT_STACK },
+]
+
+// Paper textures shipped in public/
+export const TEXTURE_OPTIONS: { label: string; url: string }[] = [
+    { label: '黄色纸', url: '/黄色纸背景.jpg' },
+    { label: '白纸', url: '/纸背景.jpg' },
+    { label: '磨砂', url: '/磨砂背景.jpg' },
+]
+
+const BASE_THEME: Omit<Theme, 'id' | 'name' | 'background'> = {
+    textColor: '#1a1a1a',
+    headingColors: { h1: '#1a1a1a', h2: '#1a1a1a', h3: '#1a1a1a' },
+    markColor: '#fef08a',
+    strongColor: '#1a1a1a',
+    fontFamily: SERIF_FONT_STACK,
+    headingFontFamily: SERIF_FONT_STACK,
+}
+
+export const BUILT_IN_THEMES: Theme[] = [
+    {
+        ...BASE_THEME,
+        id: 'classic',
+        name: '经典',
+        background: { color: '#fdfcfa', gradient: { from: '#fdfcfa', to: '#f9f7f4', angle: 180 } },
+    },
+    {
+        ...BASE_THEME,
+        id: 'grid',
+        name: '网格',
+        background: { color: '#f6f6f6', grid: { color: '#000000', size: 28, opacity: 0.05 } },
+    },
+    {
+        ...BASE_THEME,
+        id: 'paper',
+        name: '纸感',
+        background: {
+            color: '#f1ede6',
+            texture: { url: '/黄色纸背景.jpg', size: 130, opacity: 1, filter: 'saturate(0.1) brightness(1.05) contrast(0.9)' },
+        },
+    },
+    {
+        ...BASE_THEME,
+        id: 'grain',
+        name: '冷白',
+        background: { color: '#f8f9fc' },
+    },
+    {
+        ...BASE_THEME,
+        id: 'white-paper',
+        name: '白纸',
+        background: { color: '#f7f5f0', texture: { url: '/纸背景.jpg', size: 130, opacity: 1 } },
+    },
+    {
+        ...BASE_THEME,
+        id: 'frosted',
+        name: '磨砂',
+        background: { color: '#eeeeec', texture: { url: '/磨砂背景.jpg', size: 130, opacity: 1 } },
+        markColor: '#bae6fd',
+    },
+    {
+        ...BASE_THEME,
+        id: 'ink',
+        name: '墨夜',
+        background: { color: '#1c1c1e', gradient: { from: '#232326', to: '#161618', angle: 180 } },
+        textColor: '#e7e5e4',
+        headingColors: { h1: '#fafaf9', h2: '#f5f5f4', h3: '#e7e5e4' },
+        markColor: '#a16207',
+        strongColor: '#fde68a',
+    },
+]
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0]
+
+export function isBuiltInTheme(id: string): boolean {
+    return BUILT_IN_THEMES.some(theme => theme.id === id)
+}
+
+/**
+ * Theme for a project saved before themes existed (it stored a `BackgroundStyle` id).
+ */
+export function themeFromLegacyBackground(backgroundStyle: string | undefined): Theme {
+    return BUILT_IN_THEMES.find(theme => theme.id === backgroundStyle) ?? DEFAULT_THEME
+}
+
+export function themesEqual(a: Theme, b: Theme): boolean {
+    return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Root style for a themed card: background colour/gradient plus the CSS
+ * variables the card stylesheet reads for text, headings, highlights and fonts.
+ */
+export function getThemeStyle(theme: Theme): CSSProperties & Record<`--${string}`, string> {
+    const { background } = theme
+    return {
+        backgroundColor: background.color,
+        backgroundImage: background.gradient
+            ? `linear-gradient(${background.gradient.angle}deg, ${background.gradient.from} 0%, ${background.gradient.to} 100%)`
+            : 'none',
+        color: theme.textColor,
+        fontFamily: theme.fontFamily,
+        '--card-text-color': theme.textColor,
+        '--card-h1-color': theme.headingColors.h1,
+        '--card-h2-color': theme.headingColors.h2,
+        '--card-h3-color': theme.headingColors.h3,
+        '--card-mark-color': theme.markColor,
+        '--card-strong-color': theme.strongColor,
+        '--card-heading-font': theme.headingFontFamily,
+        '--card-mark-font': theme.markFontFamily ?? 'inherit',
+    }
+}
+
+/**
+ * Styles for the grid and texture layers painted between the background and the content.
+ */
+export function getThemeLayers(theme: Theme): CSSProperties[] {
+    const { texture, grid } = theme.background
+    const layers: CSSProperties[] = []
+    if (texture) {
+        layers.push({
+            backgroundImage: `url('${texture.url}')`,
+            backgroundSize: `${texture.size}% auto`,
+            backgroundPosition: 'center',
+            backgroundRepeat: 'no-repeat',
+            opacity: texture.opacity,
+            filter: texture.filter,
+        })
+    }
+    if (grid) {
+        layers.push({
+            backgroundImage: `linear-gradient(${grid.color} 1px, transparent 1px), linear-gradient(90deg, ${grid.color} 1px, transparent 1px)`,
+            backgroundSize: `${grid.size}px ${grid.size}px`,
+            opacity: grid.opacity,
+        })
+    }
+    return layers
+}
@@ -0,0 +1,32 @@
+import { nanoid } from 'nanoid'
+import type { Theme } from './theme'
+
+const CUSTOM_THEMES_KEY = 'wx2xhs-themes'
+
+/**
+ * Load the user's saved themes (shared by all projects).
+ */
+export function loadCustomThemes(): Theme[] {
+    try {
+        const saved = localStorage.getItem(CUSTOM_THEMES_KEY)
+        if (saved) return JSON.parse(saved) as Theme[]
+    } catch (e) {
+        console.warn('Failed to load themes:', e)
+    }
+    return []
+}
+
+export function saveCustomThemes(themes: Theme[]): void {
+    try {
+        localStorage.setItem(CUSTOM_THEMES_KEY, JSON.stringify(themes))
+    } catch (e) {
+        console.warn('Failed to save themes:', e)
+    }
+}
+
+/**
+ * Copy a theme under a new id, for saving it as a custom theme.
+ */
+export function createCustomTheme(source: Theme, name: string): Theme {
+    return { ...source, id: `custom-${nanoid(8)}`, name }
+}
@@ -0,0 +1,136 @@
+import type { CardScene } from './canvasRenderer'
+
+/**
+ * Main-thread side of the export worker: sends fonts, images and card scenes
+ * to `cardRender.worker.ts` and receives the painted cards as bitmaps.
+ */
+
+// A font face to register in the worker, which can't see `document.fonts`
+export interface WorkerFontSource {
+    family: string
+    // Font file data, or a URL
+    source: ArrayBuffer | string
+    weight: string
+}
+
+export interface CanvasRenderInput {
+    // Cards the canvas renderer draws, by card id
+    scenes: Map<string, CardScene>
+    // Image id -> data URL
+    images: Map<string, string>
+    fonts: WorkerFontSource[]
+}
+
+export type WorkerRequest =
+    | { type: 'setup'; fonts: WorkerFontSource[]; images: { id: string; bitmap: ImageBitmap }[]; textures: string[] }
+    | { type: 'render'; requestId: number; scene: CardScene; scale: number }
+
+export type WorkerResponse =
+    | { type: 'ready'; failedFonts: string[] }
+    | { type: 'rendered'; requestId: number; bitmap: ImageBitmap }
+    | { type: 'failed'; requestId: number; message: string }
+
+export interface CardCanvasRenderer {
+    // Families that could not be loaded in the worker
+    failedFonts: string[]
+    // Image ids that could not be decoded
+    failedImages: Set<string>
+    render: (scene: CardScene, scale: number) => Promise<HTMLCanvasElement>
+    dispose: () => void
+}
+
+async function decodeImage(dataUrl: string): Promise<ImageBitmap> {
+    const response = await fetch(dataUrl)
+    return createImageBitmap(await response.blob())
+}
+
+/**
+ * Start a render worker and load the assets the scenes reference.
+ * Throws when the browser can't run it (no module workers or OffscreenCanvas).
+ */
+export async function createCardCanvasRenderer(input: CanvasRenderInput): Promise<CardCanvasRenderer> {
+    if (typeof OffscreenCanvas === 'undefined') {
+        throw new Error('OffscreenCanvas is not supported')
+    }
+
+    const scenes = Array.from(input.scenes.values())
+    const imageIds = new Set(scenes.flatMap(scene => scene.blocks.flatMap(block => block.kind === 'image' ? [block.id] : [])))
+    const textures = new Set(scenes.flatMap(scene => scene.theme.background.texture ? [scene.theme.background.texture.url] : []))
+
+    const images: { id: string; bitmap: ImageBitmap }[] = []
+    const failedImages = new Set<string>()
+    for (const id of imageIds) {
+        const dataUrl = input.images.get(id)
+        if (!dataUrl) continue
+        try {
+            images.push({ id, bitmap: await decodeImage(dataUrl) })
+        } catch (error) {
+            console.warn(`Failed to decode image ${id}:`, error)
+            failedImages.add(id)
+        }
+    }
+
+    const worker = new Worker(new URL('./cardRender.worker.ts', import.meta.url), { type: 'module' })
+    const pending = new Map<number, { resolve: (bitmap: ImageBitmap) => void; reject: (error: Error) => void }>()
+    let nextRequestId = 0
+
+    const failedFonts = await new Promise<string[]>((resolve, reject) => {
+        worker.onerror = (event) => {
+            const error = new Error(event.message || 'Render worker failed')
+            reject(error)
+            pending.forEach(request => request.reject(error))
+            pending.clear()
+        }
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const response = event.data
+            if (response.type === 'ready') {
+                resolve(response.failedFonts)
+                return
+            }
+            const request = pending.get(response.requestId)
+            if (!request) return
+            pending.delete(response.requestId)
+            if (response.type === 'rendered') request.resolve(response.bitmap)
+            else request.reject(new Error(response.message))
+        }
+
+        const setup: WorkerRequest = {
+            type: 'setup',
+            // Copies, so the caller's font data stays usable after the transfer
+            fonts: input.fonts.map(font => ({ ...font, source: typeof font.source === 'string' ? font.source : font.source.slice(0) })),
+            images,
+            textures: Array.from(textures),
+        }
+        const transfer: Transferable[] = [
+            ...images.map(image => image.bitmap),
+            ...setup.fonts.flatMap(font => typeof font.source === 'string' ? [] : [font.source]),
+        ]
+        worker.postMessage(setup, transfer)
+    }).catch(error => {
+        worker.terminate()
+        throw error
+    })
+
+    return {
+        failedFonts,
+        failedImages,
+        render: (scene, scale) => new Promise<ImageBitmap>((resolve, reject) => {
+            const requestId = nextRequestId++
+            pending.set(requestId, { resolve, reject })
+            const request: WorkerRequest = { type: 'render', requestId, scene, scale }
+            worker.postMessage(request)
+        }).then(bitmap => {
+            const canvas = document.createElement('canvas')
+            canvas.width = bitmap.width
+            canvas.height = bitmap.height
+            canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+            bitmap.close()
+            return canvas
+        }),
+        dispose: () => {
+            worker.terminate()
+            pending.forEach(request => request.reject(new Error('Render worker stopped')))
+            pending.clear()
+        },
+    }
+}